@@ -0,0 +1,79 @@
+/**
+ * Imports an unzipped Letterboxd export for a user from the command line.
+ *
+ * Usage:
+ *   bun run import:letterboxd --user <userId> --dir <exportDir> [--fixture <file.json>]
+ *
+ * `--fixture` resolves titles from a JSON map (see `createFixtureResolver`)
+ * instead of the TMDB search API. The import report is printed as JSON.
+ * Unlike `POST /import/letterboxd`, the number of titles is not capped.
+ */
+import "dotenv/config";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+
+import { importLetterboxd } from "@/services/v1/imports";
+import {
+  createFixtureResolver,
+  createTmdbResolver,
+} from "@/services/v1/title-resolver";
+
+const { values } = parseArgs({
+  options: {
+    user: { type: "string" },
+    dir: { type: "string" },
+    fixture: { type: "string" },
+  },
+});
+
+if (!values.user || !values.dir) {
+  console.error(
+    "Usage: bun run import:letterboxd --user <userId> --dir <exportDir> [--fixture <file.json>]",
+  );
+  process.exit(1);
+}
+
+const dir = values.dir;
+
+const readOptional = (name: string) => {
+  const path = join(dir, name);
+  return existsSync(path) ? readFileSync(path, "utf8") : undefined;
+};
+
+const listsDir = join(dir, "lists");
+const lists = existsSync(listsDir)
+  ? readdirSync(listsDir)
+      .filter((fileName) => fileName.endsWith(".csv"))
+      .map((fileName) => ({
+        fileName,
+        content: readFileSync(join(listsDir, fileName), "utf8"),
+      }))
+  : [];
+
+const resolver = values.fixture
+  ? createFixtureResolver(JSON.parse(readFileSync(values.fixture, "utf8")))
+  : createTmdbResolver();
+
+try {
+  const report = await importLetterboxd(
+    values.user,
+    {
+      ratings: readOptional("ratings.csv"),
+      reviews: readOptional("reviews.csv"),
+      watched: readOptional("watched.csv"),
+      lists,
+    },
+    resolver,
+    Infinity,
+  );
+
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    `Matched ${report.summary.matched}, skipped ${report.summary.skipped}, ambiguous ${report.summary.ambiguous}`,
+  );
+  process.exit(0);
+} catch (error) {
+  console.error("Import failed:", error);
+  process.exit(1);
+}
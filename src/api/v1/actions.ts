@@ -65,6 +65,7 @@ export const actions = new Elysia({ name: "actions" })
    * - Requires authentication
    * - Idempotent: if the action already exists, counts are returned unchanged
    * - Otherwise, a new row is inserted and counts incremented
+   * - Private lists can only be liked/saved by their members (404 otherwise)
    *
    * @body listId - ID of the list
    * @body field  - "like" | "save"
@@ -0,0 +1,211 @@
+import { betterAuth } from "@/middlewares/auth-middleware";
+import { httpError } from "@/lib/httpError";
+import { rawTextMaxLength } from "@/lib/sanitize-text";
+import {
+  createDiaryEntry,
+  deleteDiaryEntry,
+  DIARY_NOTE_MAX_LENGTH,
+  getDiaryEntries,
+  getDiaryEntry,
+  updateDiaryEntry,
+} from "@/services/v1/diary";
+import Elysia, { t } from "elysia";
+
+export const diary = new Elysia({ name: "diary" })
+  .use(betterAuth)
+
+  /**
+   * GET /diary
+   *
+   * Returns a page of the authenticated user's watch log, newest viewing
+   * first, grouped by month.
+   *
+   * - Requires authentication
+   * - Optional `page` (1-based, default 1) and `limit` (default 50, max 100)
+   *
+   * @query page  - Page number
+   * @query limit - Entries per page
+   * @returns `{ data: { months: [{ month, entries }], page, limit, hasMore }, error: null }`
+   */
+  .get(
+    "/diary",
+    async ({ user, query: { page, limit }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getDiaryEntries(user.id, {
+        page: page ?? 1,
+        limit: limit ?? 50,
+      });
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      query: t.Object({
+        page: t.Optional(t.Number({ minimum: 1 })),
+        limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
+      }),
+    },
+  )
+
+  /**
+   * GET /diary/:entryId
+   *
+   * Returns a single diary entry owned by the authenticated user.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the entry does not exist or belongs to another user
+   *
+   * @param entryId - Diary entry ID
+   * @returns `{ data: DiaryEntry, error: null }`
+   */
+  .get(
+    "/diary/:entryId",
+    async ({ user, params: { entryId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getDiaryEntry(user.id, entryId);
+      if (!result) {
+        throw httpError(404, "Diary entry not found");
+      }
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        entryId: t.Number(),
+      }),
+    },
+  )
+
+  /**
+   * POST /diary
+   *
+   * Logs a viewing of a movie or TV series.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - `rewatch` defaults to `true` when the title was logged before
+   * - The first entry for a title marks its review as watched
+   *
+   * Status codes:
+   * - 201 on creation
+   * - 400 if the date, rating or note is invalid
+   *
+   * @body mediaType - "movie" | "tv"
+   * @body mediaId   - TMDB media ID
+   * @body watchedOn - Watch date (YYYY-MM-DD)
+   * @body rewatch   - Optional rewatch flag
+   * @body rating    - Optional rating for this viewing
+   * @body note      - Optional note for this viewing
+   * @returns `{ data: DiaryEntry, error: null }`
+   */
+  .post(
+    "/diary",
+    async ({ user, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await createDiaryEntry({ userId: user.id, ...body });
+
+      set.status = 201;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        mediaType: t.Union([t.Literal("movie"), t.Literal("tv")]),
+        mediaId: t.Number(),
+        watchedOn: t.String(),
+        rewatch: t.Optional(t.Boolean()),
+        rating: t.Optional(t.Nullable(t.String())),
+        note: t.Optional(
+          t.Nullable(
+            t.String({ maxLength: rawTextMaxLength(DIARY_NOTE_MAX_LENGTH) }),
+          ),
+        ),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /diary/:entryId
+   *
+   * Updates a diary entry owned by the authenticated user.
+   * Send `null` to clear the rating or note.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 if the date, rating or note is invalid
+   * - 404 if the entry does not exist or belongs to another user
+   *
+   * @param entryId - Diary entry ID
+   * @returns `{ data: DiaryEntry, error: null }`
+   */
+  .patch(
+    "/diary/:entryId",
+    async ({ user, params: { entryId }, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await updateDiaryEntry(user.id, entryId, body);
+      if (!result) {
+        throw httpError(404, "Diary entry not found");
+      }
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        entryId: t.Number(),
+      }),
+      body: t.Object({
+        watchedOn: t.Optional(t.String()),
+        rewatch: t.Optional(t.Boolean()),
+        rating: t.Optional(t.Nullable(t.String())),
+        note: t.Optional(
+          t.Nullable(
+            t.String({ maxLength: rawTextMaxLength(DIARY_NOTE_MAX_LENGTH) }),
+          ),
+        ),
+      }),
+    },
+  )
+
+  /**
+   * DELETE /diary/:entryId
+   *
+   * Deletes a diary entry owned by the authenticated user.
+   * Deleting the last entry for a title clears its review's watched flag.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the entry does not exist or belongs to another user
+   *
+   * @param entryId - Diary entry ID
+   * @returns `{ data: null, error: null }`
+   */
+  .delete(
+    "/diary/:entryId",
+    async ({ user, params: { entryId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await deleteDiaryEntry(user.id, entryId);
+      if (!result) {
+        throw httpError(404, "Diary entry not found");
+      }
+
+      set.status = 200;
+      return { data: null, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        entryId: t.Number(),
+      }),
+    },
+  );
@@ -0,0 +1,46 @@
+import { betterAuth } from "@/middlewares/auth-middleware";
+import { httpError } from "@/lib/httpError";
+import { getFeed } from "@/services/v1/activity";
+import Elysia, { t } from "elysia";
+
+export const feed = new Elysia({ name: "feed" })
+  .use(betterAuth)
+
+  /**
+   * GET /feed
+   *
+   * Returns activity from the users the authenticated user follows, newest
+   * first: ratings, reviews, lists created, items added to lists and lists
+   * liked.
+   *
+   * - Requires authentication
+   * - Cursor pagination: pass the previous page's `nextCursor` as `cursor`
+   * - Optional `limit` (default 30, max 100)
+   * - Activity on private/unlisted or trashed lists is omitted
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 if the cursor is invalid
+   *
+   * @query cursor - Cursor from the previous page
+   * @query limit  - Items per page
+   * @returns `{ data: { items: FeedItem[], nextCursor: string | null }, error: null }`
+   */
+  .get(
+    "/feed",
+    async ({ user, query: { cursor, limit }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getFeed(user.id, { cursor, limit: limit ?? 30 });
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      query: t.Object({
+        cursor: t.Optional(t.String()),
+        limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
+      }),
+    },
+  );
@@ -0,0 +1,156 @@
+import Elysia, { t } from "elysia";
+
+import { auth } from "@/lib/auth";
+import { httpError } from "@/lib/httpError";
+import { betterAuth } from "@/middlewares/auth-middleware";
+import {
+  followUser,
+  getFollows,
+  getFollowStats,
+  unfollowUser,
+} from "@/services/v1/follows";
+
+const pagination = t.Object({
+  page: t.Optional(t.Number({ minimum: 1 })),
+  limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
+});
+
+export const follows = new Elysia({ name: "follows", prefix: "/user" })
+  .use(betterAuth)
+
+  /**
+   * GET /user/:username/follows
+   *
+   * Public endpoint returning a user's follower and following counts.
+   * If a session cookie is present, `isFollowing` tells whether the viewer
+   * follows the user.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the user does not exist
+   *
+   * @param username - The user's username
+   * @returns `{ data: { followerCount, followingCount, isFollowing }, error: null }`
+   */
+  .get(
+    "/:username/follows",
+    async ({ request, params: { username }, set }) => {
+      const session = await auth.api.getSession({ headers: request.headers });
+
+      const result = await getFollowStats(username, session?.user?.id);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      params: t.Object({
+        username: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * GET /user/:username/followers
+   * GET /user/:username/following
+   *
+   * Public endpoints returning a page of a user's followers, or of the users
+   * they follow, most recent first.
+   *
+   * - Optional `page` (1-based, default 1) and `limit` (default 50, max 100)
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the user does not exist
+   *
+   * @param username - The user's username
+   * @query page     - Page number
+   * @query limit    - Users per page
+   * @returns `{ data: { users: { username, name, image, followedAt }[], page, limit, hasMore }, error: null }`
+   */
+  .get(
+    "/:username/:direction",
+    async ({ params: { username, direction }, query, set }) => {
+      const result = await getFollows(username, direction, {
+        page: query.page ?? 1,
+        limit: query.limit ?? 50,
+      });
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      params: t.Object({
+        username: t.String(),
+        direction: t.Union([t.Literal("followers"), t.Literal("following")]),
+      }),
+      query: pagination,
+    },
+  )
+
+  /**
+   * POST /user/:username/follow
+   *
+   * Follows a user; their activity appears in the caller's feed.
+   *
+   * - Requires authentication
+   * - **Idempotent**: following again is a no-op
+   *
+   * Status codes:
+   * - 201 when the follow is created
+   * - 200 when the caller already follows the user
+   * - 400 when following yourself
+   * - 404 if the user does not exist
+   *
+   * @param username - Username to follow
+   * @returns `{ data: { created: boolean }, error: null }`
+   */
+  .post(
+    "/:username/follow",
+    async ({ user, params: { username }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await followUser(user.id, username);
+
+      set.status = result.created ? 201 : 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        username: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * DELETE /user/:username/follow
+   *
+   * Unfollows a user.
+   *
+   * - Requires authentication
+   * - **Idempotent**: unfollowing a user you don't follow is a no-op
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the user does not exist
+   *
+   * @param username - Username to unfollow
+   * @returns `{ data: { deleted: boolean }, error: null }`
+   */
+  .delete(
+    "/:username/follow",
+    async ({ user, params: { username }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await unfollowUser(user.id, username);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        username: t.String(),
+      }),
+    },
+  );
@@ -0,0 +1,75 @@
+import { betterAuth } from "@/middlewares/auth-middleware";
+import { httpError } from "@/lib/httpError";
+import { importLetterboxd } from "@/services/v1/imports";
+import Elysia, { t } from "elysia";
+
+const csvFile = t.File({ maxSize: "10m" });
+
+export const imports = new Elysia({ name: "imports" })
+  .use(betterAuth)
+
+  /**
+   * POST /import/letterboxd
+   *
+   * Imports a Letterboxd data export for the authenticated user.
+   * Titles are matched to TMDB IDs by name and release year.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - `multipart/form-data` with any of `ratings`, `reviews`, `watched`
+   *   (single files) and `lists` (one or more files from `lists/`)
+   * - Ratings and reviews upsert through the same logic as `POST /reviews`;
+   *   list items are added through the same logic as `POST /list-items`
+   * - Safe to re-run: already imported rows are left unchanged
+   * - Rows that cannot be matched with confidence are reported as
+   *   "ambiguous" with up to 5 candidates instead of being guessed
+   *
+   * Status codes:
+   * - 200 with the import report
+   * - 400 if no files were sent
+   * - 413 if a file has too many rows, or the export has more than
+   *   `MAX_IMPORT_TITLES` distinct titles
+   *
+   * @body ratings - Optional `ratings.csv`
+   * @body reviews - Optional `reviews.csv`
+   * @body watched - Optional `watched.csv`
+   * @body lists   - Optional `lists/*.csv` files
+   * @returns `{ data: { summary, lists, rows }, error: null }`
+   */
+  .post(
+    "/import/letterboxd",
+    async ({ user, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const { ratings, reviews, watched } = body;
+      const lists = body.lists ?? [];
+
+      if (!ratings && !reviews && !watched && lists.length === 0) {
+        throw httpError(400, "No Letterboxd export files provided");
+      }
+
+      const result = await importLetterboxd(user.id, {
+        ratings: await ratings?.text(),
+        reviews: await reviews?.text(),
+        watched: await watched?.text(),
+        lists: await Promise.all(
+          lists.map(async (file) => ({
+            fileName: file.name,
+            content: await file.text(),
+          })),
+        ),
+      });
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        ratings: t.Optional(csvFile),
+        reviews: t.Optional(csvFile),
+        watched: t.Optional(csvFile),
+        lists: t.Optional(t.Files({ maxSize: "10m" })),
+      }),
+    },
+  );
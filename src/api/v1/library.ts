@@ -0,0 +1,49 @@
+import { betterAuth } from "@/middlewares/auth-middleware";
+import { httpError } from "@/lib/httpError";
+import { getLibraryState } from "@/services/v1/library";
+import Elysia, { t } from "elysia";
+
+export const library = new Elysia({ name: "library" })
+  .use(betterAuth)
+
+  /**
+   * POST /library/state
+   *
+   * Returns the authenticated user's library state for many titles at once,
+   * so poster grids (trending, list pages) don't need one request per title.
+   *
+   * - Requires authentication
+   * - Per title: review (`liked`, `watched`, `review`, `rating`) or `null`,
+   *   watchlist entry or `null`, and every list of the user containing it
+   * - Results are returned in request order
+   *
+   * Status codes:
+   * - 200 on success
+   * - 422 if more than 200 media are requested
+   *
+   * @body items - `(mediaType, mediaId)` pairs (max 200)
+   * @returns `{ data: { mediaType, mediaId, review, watchlist, lists }[], error: null }`
+   */
+  .post(
+    "/library/state",
+    async ({ user, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getLibraryState(user.id, body.items);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        items: t.Array(
+          t.Object({
+            mediaType: t.Union([t.Literal("movie"), t.Literal("tv")]),
+            mediaId: t.Number(),
+          }),
+          { maxItems: 200 },
+        ),
+      }),
+    },
+  );
@@ -0,0 +1,296 @@
+import { authorizeRole } from "@/lib/authorization";
+import { httpError } from "@/lib/httpError";
+import { betterAuth } from "@/middlewares/auth-middleware";
+import {
+  getCollaborators,
+  getInvites,
+  getSharedLists,
+  inviteCollaborator,
+  removeCollaborator,
+  respondToInvite,
+  updateCollaboratorRole,
+} from "@/services/v1/list-collaborators";
+import Elysia, { t } from "elysia";
+
+const role = t.Union([t.Literal("editor"), t.Literal("viewer")]);
+
+export const listCollaborators = new Elysia({ name: "list-collaborators" })
+  .use(betterAuth)
+
+  /**
+   * GET /lists/shared
+   *
+   * Returns lists the authenticated user collaborates on (accepted invites),
+   * with the owner's username and the user's role.
+   *
+   * @returns `{ data: SharedList[], error: null }`
+   */
+  .get(
+    "/lists/shared",
+    async ({ user, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getSharedLists(user.id);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+    },
+  )
+
+  /**
+   * GET /lists/:listId/collaborators
+   *
+   * Returns the collaborators of a list, including pending invites.
+   *
+   * - Requires the viewer role via `authorizeRole("list", listId, user.id, "viewer")`
+   *
+   * @param listId - ID of the list
+   * @returns `{ data: Collaborator[], error: null }`
+   */
+  .get(
+    "/lists/:listId/collaborators",
+    async ({ user, params: { listId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole("list", listId, user.id, "viewer");
+
+      const result = await getCollaborators(listId);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        listId: t.Number(),
+      }),
+    },
+  )
+
+  /**
+   * POST /lists/:listId/collaborators
+   *
+   * Invites a user to collaborate on a list as an editor or viewer.
+   * The invitee gains access once they accept.
+   *
+   * Security & behavior:
+   * - Requires the owner role via `authorizeRole("list", listId, user.id, "owner")`
+   * - **Idempotent**: re-inviting updates the role of the existing invite/collaborator
+   * - Editors can add, remove and reorder items; viewers can read private lists
+   *
+   * Status codes:
+   * - 201 when the invite is created
+   * - 200 when the user was already invited
+   * - 400 when inviting yourself
+   * - 404 if the list or user does not exist
+   *
+   * @param listId  - ID of the list
+   * @body username - Username of the invitee
+   * @body role     - "editor" | "viewer"
+   * @returns `{ data: { created: boolean, collaborator }, error: null }`
+   */
+  .post(
+    "/lists/:listId/collaborators",
+    async ({ user, params: { listId }, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole("list", listId, user.id, "owner");
+
+      const result = await inviteCollaborator(
+        listId,
+        user.id,
+        body.username,
+        body.role,
+      );
+
+      set.status = result.created ? 201 : 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        listId: t.Number(),
+      }),
+      body: t.Object({
+        username: t.String(),
+        role,
+      }),
+    },
+  )
+
+  /**
+   * PATCH /lists/:listId/collaborators/:userId
+   *
+   * Changes a collaborator's role.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the user is not a collaborator on the list
+   *
+   * @param listId - ID of the list
+   * @param userId - Collaborator's user ID
+   * @body role    - "editor" | "viewer"
+   * @returns `{ data: Collaborator, error: null }`
+   */
+  .patch(
+    "/lists/:listId/collaborators/:userId",
+    async ({ user, params: { listId, userId }, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole("list", listId, user.id, "owner");
+
+      const result = await updateCollaboratorRole(listId, userId, body.role);
+      if (!result) {
+        throw httpError(404, "Collaborator not found");
+      }
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        listId: t.Number(),
+        userId: t.String(),
+      }),
+      body: t.Object({
+        role,
+      }),
+    },
+  )
+
+  /**
+   * DELETE /lists/:listId/collaborators/:userId
+   *
+   * Removes a collaborator or revokes a pending invite.
+   *
+   * Security & behavior:
+   * - The owner can remove anyone; collaborators can remove themselves (leave)
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the user is not a collaborator on the list
+   *
+   * @param listId - ID of the list
+   * @param userId - Collaborator's user ID
+   * @returns `{ data: null, error: null }`
+   */
+  .delete(
+    "/lists/:listId/collaborators/:userId",
+    async ({ user, params: { listId, userId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole(
+        "list",
+        listId,
+        user.id,
+        userId === user.id ? "viewer" : "owner",
+      );
+
+      const removed = await removeCollaborator(listId, userId);
+      if (!removed) {
+        throw httpError(404, "Collaborator not found");
+      }
+
+      set.status = 200;
+      return { data: null, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        listId: t.Number(),
+        userId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * GET /list-invites
+   *
+   * Returns the authenticated user's pending list invites.
+   *
+   * @returns `{ data: Invite[], error: null }`
+   */
+  .get(
+    "/list-invites",
+    async ({ user, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getInvites(user.id);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+    },
+  )
+
+  /**
+   * POST /list-invites/:listId/accept
+   *
+   * Accepts a pending invite to collaborate on a list.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if there is no pending invite or the list is in the trash
+   *
+   * @param listId - ID of the list
+   * @returns `{ data: Collaborator, error: null }`
+   */
+  .post(
+    "/list-invites/:listId/accept",
+    async ({ user, params: { listId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await respondToInvite(user.id, listId, true);
+      if (!result) {
+        throw httpError(404, "Invite not found");
+      }
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        listId: t.Number(),
+      }),
+    },
+  )
+
+  /**
+   * POST /list-invites/:listId/decline
+   *
+   * Declines (and removes) a pending invite.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if there is no pending invite or the list is in the trash
+   *
+   * @param listId - ID of the list
+   * @returns `{ data: null, error: null }`
+   */
+  .post(
+    "/list-invites/:listId/decline",
+    async ({ user, params: { listId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await respondToInvite(user.id, listId, false);
+      if (result === undefined) {
+        throw httpError(404, "Invite not found");
+      }
+
+      set.status = 200;
+      return { data: null, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        listId: t.Number(),
+      }),
+    },
+  );
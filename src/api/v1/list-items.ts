@@ -1,8 +1,18 @@
 import { betterAuth } from "@/middlewares/auth-middleware";
 import { httpError } from "@/lib/httpError";
-import { addListItem, deleteListItem, getListItem } from "@/services/v1/lists";
+import { rawTextMaxLength } from "@/lib/sanitize-text";
+import {
+  addListItem,
+  deleteListItem,
+  getListMemberships,
+  LIST_ITEM_NOTE_MAX_LENGTH,
+  updateListItem,
+} from "@/services/v1/lists";
+import { getWatchlistEntry } from "@/services/v1/watchlist";
 import Elysia, { t } from "elysia";
 
+const mediaType = t.Union([t.Literal("movie"), t.Literal("tv")]);
+
 export const listItems = new Elysia({
   name: "list-items",
 })
@@ -11,25 +21,46 @@ export const listItems = new Elysia({
   /**
    * GET /list-items
    *
-   * Returns the authenticated user's list item for a given media (if any).
+   * Returns the authenticated user's list item for a given media, every list
+   * containing it, and its watchlist status.
    *
    * - Requires authentication
-   * - Responds with `{ data: null }` if the user hasn't saved this media to any list
+   * - `listId` / `listItemId` describe the first list containing the media
+   *   (null if none), as before `lists` and `watchlist` were added
+   * - `lists` covers lists the user owns or edits; empty if the media is on none
+   * - `watchlist` is `null` if the media is not on the user's watchlist
+   * - Responds with `{ data: null }` if the media is on no list and not on the watchlist
    *
    * @query mediaType - "movie" | "tv"
    * @query mediaId   - TMDB media ID
-   * @returns `{ data: { listId, listItemId, mediaType, mediaId } | null, error: null }`
+   * @returns `{ data: { listId, listItemId, mediaType, mediaId, lists: { listId, listName, listSlug, username, listItemId }[], watchlist: WatchlistEntry | null } | null, error: null }`
    */
   .get(
     "/list-items",
     async ({ user, query: { mediaType, mediaId }, set }) => {
       if (!user) throw httpError(401, "Please login or signup to continue");
 
-      const result = await getListItem(user.id, mediaId, mediaType);
+      const [[membership], watchlist] = await Promise.all([
+        getListMemberships(user.id, [{ mediaType, mediaId }]),
+        getWatchlistEntry(user.id, mediaType, mediaId),
+      ]);
+
+      const lists = membership?.lists ?? [];
+      const [first] = lists;
 
       set.status = 200;
       return {
-        data: result ?? null,
+        data:
+          first || watchlist
+            ? {
+                listId: first?.listId ?? null,
+                listItemId: first?.listItemId ?? null,
+                mediaType,
+                mediaId,
+                lists,
+                watchlist: watchlist ?? null,
+              }
+            : null,
         error: null,
       };
     },
@@ -37,7 +68,47 @@ export const listItems = new Elysia({
       auth: true,
       query: t.Object({
         mediaId: t.Number(),
-        mediaType: t.Union([t.Literal("movie"), t.Literal("tv")]),
+        mediaType: mediaType,
+      }),
+    },
+  )
+
+  /**
+   * POST /list-items/lookup
+   *
+   * Batch form of `GET /list-items` for poster grids and "add to list"
+   * dialogs: returns, per media, every list of the user containing it.
+   *
+   * - Requires authentication
+   * - Results are returned in request order (duplicates included)
+   *
+   * Status codes:
+   * - 200 on success
+   * - 422 if more than 100 media are requested
+   *
+   * @body items - `(mediaType, mediaId)` pairs (max 100)
+   * @returns `{ data: { mediaType, mediaId, lists: {...}[] }[], error: null }`
+   */
+  .post(
+    "/list-items/lookup",
+    async ({ user, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getListMemberships(user.id, body.items);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        items: t.Array(
+          t.Object({
+            mediaType: mediaType,
+            mediaId: t.Number(),
+          }),
+          { maxItems: 100 },
+        ),
       }),
     },
   )
@@ -49,12 +120,15 @@ export const listItems = new Elysia({
    *
    * Security & behavior:
    * - Requires authentication
-   * - **Ownership enforced server-side**: `listId` must belong to the caller
+   * - **Role enforced server-side**: the caller must own `listId` or be an editor
    * - **Idempotent**: re-adding the same media returns the existing row
+   * - The item records the caller as the user who added it
    *
    * Status codes:
    * - 201 when a new item is created
    * - 200 when the item already existed
+   * - 403 if the caller may only view the list
+   * - 404 if the list doesn't exist or the caller has no access
    *
    * @body listId    - The user's list ID
    * @body mediaType - "movie" | "tv"
@@ -96,18 +170,81 @@ export const listItems = new Elysia({
     },
   )
 
+  /**
+   * PATCH /list-items/:id
+   *
+   * Updates the curator's note on a list item and its spoiler flag.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - The caller must be the list's owner or an editor
+   * - Notes are sanitized markdown (max 1000 characters); `null` or an empty
+   *   note clears it
+   * - `hasSpoilers` lets clients hide the note behind a reveal
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 if the note is invalid or no fields were sent
+   * - 403 if the caller is only a viewer of the list
+   * - 404 if the list item does not exist or the caller has no access to its list
+   *
+   * @param id          - The `listItemId` to update
+   * @body  note        - Optional note (null clears it)
+   * @body  hasSpoilers - Optional spoiler flag
+   * @returns `{ data: ListItem, error: null }`
+   */
+  .patch(
+    "/list-items/:id",
+    async ({ user, params: { id: listItemId }, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      if (Object.values(body).every((value) => value === undefined)) {
+        throw httpError(400, "No list item fields to update");
+      }
+
+      const result = await updateListItem(user.id, listItemId, body);
+
+      if (!result) {
+        throw httpError(404, "List item not found");
+      }
+
+      set.status = 200;
+      return {
+        data: result,
+        error: null,
+      };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        id: t.Number(),
+      }),
+      body: t.Object({
+        note: t.Optional(
+          t.Nullable(
+            t.String({
+              maxLength: rawTextMaxLength(LIST_ITEM_NOTE_MAX_LENGTH),
+            }),
+          ),
+        ),
+        hasSpoilers: t.Optional(t.Boolean()),
+      }),
+    },
+  )
+
   /**
    * DELETE /list-items/:id
    *
-   * Removes a media item from the authenticated user's list.
+   * Removes a media item from a list.
    *
    * Security & behavior:
    * - Requires authentication
-   * - Deletes only if the `list_item.userId` matches the caller
+   * - The caller must be the list's owner or an editor (any item, whoever added it)
    *
    * Status codes:
    * - 200 with `{ data: null }` on success
-   * - 404 if the list item does not exist or does not belong to the user
+   * - 403 if the caller is only a viewer of the list
+   * - 404 if the list item does not exist or the caller has no access to its list
    *
    * @param id - The `listItemId` to remove
    * @returns `{ data: null, error: null }`
@@ -1,5 +1,6 @@
-import { authorizeOwner } from "@/lib/authorization";
+import { authorizeRole } from "@/lib/authorization";
 import { HttpError, httpError } from "@/lib/httpError";
+import { rawTextMaxLength } from "@/lib/sanitize-text";
 import { generateSlug } from "@/lib/slug";
 import { betterAuth } from "@/middlewares/auth-middleware";
 import { clientListSchema } from "@/schemas/v1/list-schema";
@@ -8,34 +9,69 @@ import {
   deleteList,
   getLists,
   getPopularLists,
+  getTrash,
+  LIST_DESCRIPTION_MAX_LENGTH,
+  restoreList,
   updateList,
 } from "@/services/v1/lists";
+import { forkList } from "@/services/v1/actions";
+import { getListAnalytics } from "@/services/v1/list-analytics";
+import { moveListItem, setListOrder } from "@/services/v1/list-order";
+import {
+  addListItems,
+  MAX_BULK_ITEMS,
+  removeListItems,
+  transferListItems,
+} from "@/services/v1/list-bulk";
 import Elysia, { t } from "elysia";
 
+const visibility = t.Union([
+  t.Literal("public"),
+  t.Literal("unlisted"),
+  t.Literal("private"),
+]);
+
+const listItemIds = t.Array(t.Number(), {
+  minItems: 1,
+  maxItems: MAX_BULK_ITEMS,
+});
+
 export const lists = new Elysia({ name: "lists" })
   .use(betterAuth)
 
   /**
    * GET /lists/popular
    *
-   * Returns public lists ordered by total view counts (all-time).
+   * Returns lists ranked by a popularity score that combines recent views
+   * with likes and saves, decaying over time.
    *
    * - Public endpoint (no auth)
    * - Optional `limit` query param (default 10)
+   * - Optional `window` query param: "day" | "week" (default) | "month" | "all";
+   *   `viewCount` is the number of views within the window
+   * - Lists without views are still eligible
    * - Stable response shape: `{ data, error: null }`
    */
   .get(
     "/lists/popular",
-    async ({ query: { limit }, set }) => {
+    async ({ query: { limit, window }, set }) => {
       const safeLimit = typeof limit === "number" && limit > 0 ? limit : 10;
-      const data = await getPopularLists(safeLimit);
+      const data = await getPopularLists(safeLimit, window);
 
       set.status = 200;
       return { data, error: null };
     },
     {
       query: t.Object({
-        limit: t.Optional(t.Number()),
+        limit: t.Optional(t.Number({ maximum: 100 })),
+        window: t.Optional(
+          t.Union([
+            t.Literal("day"),
+            t.Literal("week"),
+            t.Literal("month"),
+            t.Literal("all"),
+          ]),
+        ),
       }),
     },
   )
@@ -74,11 +110,16 @@ export const lists = new Elysia({ name: "lists" })
    * - Requires authentication
    * - Validates `listName` with Zod (`clientListSchema`)
    * - Generates a unique slug for the user
+   * - Optional markdown `description` is sanitized (max 2000 characters)
+   * - `visibility` defaults to "public"
    *
    * Status codes:
    * - 201 on creation
+   * - 400 if the name or description is invalid
    *
-   * @body listName - Name of the new list
+   * @body listName    - Name of the new list
+   * @body description - Optional markdown description
+   * @body visibility  - Optional "public" | "unlisted" | "private"
    * @returns `{ data: List, error: null }`
    */
   .post(
@@ -106,6 +147,8 @@ export const lists = new Elysia({ name: "lists" })
         userId: user.id,
         name: listName,
         slug,
+        description: body.description,
+        visibility: body.visibility,
       });
 
       set.status = 201;
@@ -115,26 +158,99 @@ export const lists = new Elysia({ name: "lists" })
       auth: true,
       body: t.Object({
         listName: t.String(),
+        description: t.Optional(
+          t.Nullable(
+            t.String({
+              maxLength: rawTextMaxLength(LIST_DESCRIPTION_MAX_LENGTH),
+            }),
+          ),
+        ),
+        visibility: t.Optional(visibility),
+      }),
+    },
+  )
+
+  /**
+   * POST /lists/:listId/fork
+   *
+   * Forks a list: copies its items (in order), description and ranked mode
+   * into a new list owned by the authenticated user.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - Only public lists can be forked (members may fork private/unlisted lists)
+   * - `listName` defaults to the source's name; a unique slug is generated
+   * - The fork references its source and the source's `forkCount` is incremented
+   * - The fork keeps the source's visibility
+   * - Item notes are not copied; the items are recorded as added by the user
+   *
+   * Status codes:
+   * - 201 on creation
+   * - 400 if the name is invalid
+   * - 404 if the list does not exist or is not visible to the user
+   *
+   * @param listId   - ID of the list to fork
+   * @body  listName - Optional name for the fork
+   * @returns `{ data: List, error: null }`
+   */
+  .post(
+    "/lists/:listId/fork",
+    async ({ user, params: { listId }, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      let listName: string | undefined;
+      if (body?.listName !== undefined) {
+        const parsed = clientListSchema.safeParse(body);
+        if (!parsed.success) {
+          throw httpError(400, "Invalid list name");
+        }
+        listName = parsed.data.listName.trim();
+      }
+
+      const result = await forkList(user.id, listId, listName);
+
+      set.status = 201;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        listId: t.Number(),
       }),
+      body: t.Optional(
+        t.Object({
+          listName: t.Optional(t.String()),
+        }),
+      ),
     },
   )
 
   /**
    * PATCH /lists/:listId
    *
-   * Updates mutable fields on a list (currently: name/slug).
+   * Updates mutable fields on a list: name/slug, ranked mode, description,
+   * cover and visibility. Omitted fields are left unchanged.
    *
    * Security & behavior:
    * - Requires authentication
-   * - Verifies ownership via `authorizeOwner("list", listId, user.id)`
+   * - Requires the owner role via `authorizeRole("list", listId, user.id, "owner")`
    * - Service records slug history when name changes
+   * - When `isRanked` is on, the public list page numbers items in order
+   * - `coverItemId` must be an item on this list; its backdrop becomes the cover
+   * - "unlisted" lists are hidden from profiles and popular lists but readable
+   *   by link; "private" lists are visible to the owner only
    *
    * Status codes:
    * - 200 on success
+   * - 400 if a field is invalid or no fields were sent
    * - 404 if the list does not exist (from service)
    *
-   * @param listId    - ID of the list to update
-   * @body  listName  - New name for the list
+   * @param listId       - ID of the list to update
+   * @body  listName     - Optional new name for the list
+   * @body  isRanked     - Optional ranked mode flag
+   * @body  description  - Optional markdown description (null clears it)
+   * @body  coverItemId  - Optional list item ID for the cover (null clears it)
+   * @body  visibility   - Optional "public" | "unlisted" | "private"
    * @returns `{ data: List, error: null }`
    */
   .patch(
@@ -142,10 +258,28 @@ export const lists = new Elysia({ name: "lists" })
     async ({ user, body, params: { listId }, set }) => {
       if (!user) throw httpError(401, "Please login or signup to continue");
 
-      await authorizeOwner("list", listId, user.id);
+      await authorizeRole("list", listId, user.id, "owner");
+
+      if (Object.values(body).every((value) => value === undefined)) {
+        throw httpError(400, "No list fields to update");
+      }
+
+      let listName: string | undefined;
+      if (body.listName !== undefined) {
+        const parsed = clientListSchema.safeParse(body);
+        if (!parsed.success) {
+          throw httpError(400, "Invalid list name");
+        }
+        listName = parsed.data.listName.trim();
+      }
 
-      const listName = (body.listName ?? "").trim();
-      const updates = { name: listName };
+      const updates = {
+        name: listName,
+        isRanked: body.isRanked,
+        description: body.description,
+        coverItemId: body.coverItemId,
+        visibility: body.visibility,
+      };
 
       const result = await updateList(user.id, listId, updates);
       if (!result) {
@@ -158,8 +292,299 @@ export const lists = new Elysia({ name: "lists" })
     {
       auth: true,
       body: t.Object({
-        listName: t.String(),
+        listName: t.Optional(t.String()),
+        isRanked: t.Optional(t.Boolean()),
+        description: t.Optional(
+          t.Nullable(
+            t.String({
+              maxLength: rawTextMaxLength(LIST_DESCRIPTION_MAX_LENGTH),
+            }),
+          ),
+        ),
+        coverItemId: t.Optional(t.Nullable(t.Number())),
+        visibility: t.Optional(visibility),
+      }),
+      params: t.Object({
+        listId: t.Number(),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /lists/:listId/items/:listItemId/position
+   *
+   * Moves a single item to a new index in the list's manual order.
+   * Only the moved item is rewritten, so this stays cheap for long lists.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - Requires the editor role via `authorizeRole("list", listId, user.id, "editor")`
+   * - `index` is 0-based and clamped to the end of the list
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the list or item does not exist
+   *
+   * @param listId     - ID of the list
+   * @param listItemId - ID of the item to move
+   * @body  index      - Target index
+   * @returns `{ data: null, error: null }`
+   */
+  .patch(
+    "/lists/:listId/items/:listItemId/position",
+    async ({ user, body, params: { listId, listItemId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole("list", listId, user.id, "editor");
+      await moveListItem(listId, listItemId, body.index);
+
+      set.status = 200;
+      return { data: null, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        index: t.Integer({ minimum: 0 }),
+      }),
+      params: t.Object({
+        listId: t.Number(),
+        listItemId: t.Number(),
+      }),
+    },
+  )
+
+  /**
+   * PUT /lists/:listId/items/order
+   *
+   * Replaces the full manual order of a list in one call.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - Requires the editor role via `authorizeRole("list", listId, user.id, "editor")`
+   * - `listItemIds` must contain every item of the list exactly once
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 if the IDs don't match the list's items
+   * - 404 if the list does not exist
+   *
+   * @param listId      - ID of the list
+   * @body  listItemIds - Item IDs in the desired order
+   * @returns `{ data: null, error: null }`
+   */
+  .put(
+    "/lists/:listId/items/order",
+    async ({ user, body, params: { listId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole("list", listId, user.id, "editor");
+      await setListOrder(listId, body.listItemIds);
+
+      set.status = 200;
+      return { data: null, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        listItemIds: t.Array(t.Number(), { maxItems: 5000 }),
+      }),
+      params: t.Object({
+        listId: t.Number(),
+      }),
+    },
+  )
+
+  /**
+   * POST /lists/:listId/items
+   *
+   * Adds many titles to a list in one transaction.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - Requires the editor role via `authorizeRole("list", listId, user.id, "editor")`
+   * - New items go to the top of the list, in request order
+   * - The list's `updatedAt` is refreshed once
+   *
+   * Status codes:
+   * - 200 with per-item results
+   * - 404 if the list does not exist
+   *
+   * @param listId - ID of the list
+   * @body  items  - `(mediaType, mediaId)` pairs (max 500)
+   * @returns `{ data: { mediaType, mediaId, status: "created" | "duplicate" | "not_found", listItemId }[], error: null }`
+   */
+  .post(
+    "/lists/:listId/items",
+    async ({ user, body, params: { listId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole("list", listId, user.id, "editor");
+      const result = await addListItems(user.id, listId, body.items);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        items: t.Array(
+          t.Object({
+            mediaType: t.Union([t.Literal("movie"), t.Literal("tv")]),
+            mediaId: t.Number(),
+          }),
+          { minItems: 1, maxItems: MAX_BULK_ITEMS },
+        ),
+      }),
+      params: t.Object({
+        listId: t.Number(),
+      }),
+    },
+  )
+
+  /**
+   * POST /lists/:listId/items/remove
+   *
+   * Removes many items from a list in one transaction.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - Requires the editor role via `authorizeRole("list", listId, user.id, "editor")`
+   * - The list's `updatedAt` is refreshed once
+   *
+   * Status codes:
+   * - 200 with per-item results
+   * - 404 if the list does not exist
+   *
+   * @param listId      - ID of the list
+   * @body  listItemIds - Items to remove (max 500)
+   * @returns `{ data: { listItemId, status: "removed" | "not_found" }[], error: null }`
+   */
+  .post(
+    "/lists/:listId/items/remove",
+    async ({ user, body, params: { listId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole("list", listId, user.id, "editor");
+      const result = await removeListItems(user.id, listId, body.listItemIds);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        listItemIds,
+      }),
+      params: t.Object({
+        listId: t.Number(),
+      }),
+    },
+  )
+
+  /**
+   * POST /lists/:listId/items/move
+   * POST /lists/:listId/items/copy
+   *
+   * Moves or copies items from this list into another list in one transaction.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - Requires the editor role on **both** lists via `authorizeRole`
+   * - Transferred items go to the top of the target list and keep their notes
+   * - Moving a title the target already has removes it from the source
+   * - Each list's `updatedAt` is refreshed once
+   *
+   * Status codes:
+   * - 200 with per-item results
+   * - 400 if the source and target are the same list
+   * - 404 if either list does not exist
+   *
+   * @param listId      - ID of the source list
+   * @param action      - "move" | "copy"
+   * @body  toListId    - ID of the target list
+   * @body  listItemIds - Source items to transfer (max 500)
+   * @returns `{ data: { listItemId, status: "moved" | "created" | "duplicate" | "not_found", targetListItemId }[], error: null }`
+   */
+  .post(
+    "/lists/:listId/items/:action",
+    async ({ user, body, params: { listId, action }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole("list", listId, user.id, "editor");
+      await authorizeRole("list", body.toListId, user.id, "editor");
+
+      const result = await transferListItems(
+        user.id,
+        listId,
+        body.toListId,
+        body.listItemIds,
+        action,
+      );
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        toListId: t.Number(),
+        listItemIds,
+      }),
+      params: t.Object({
+        listId: t.Number(),
+        action: t.Union([t.Literal("move"), t.Literal("copy")]),
       }),
+    },
+  )
+
+  /**
+   * GET /lists/trash
+   *
+   * Returns the authenticated user's trashed lists, most recently deleted
+   * first, with the date each will be purged.
+   *
+   * @returns `{ data: (List & { deletedAt, purgeAt })[], error: null }`
+   */
+  .get(
+    "/lists/trash",
+    async ({ user, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getTrash(user.id);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+    },
+  )
+
+  /**
+   * POST /lists/:listId/restore
+   *
+   * Restores a list from the authenticated user's trash, with its items,
+   * likes, saves and slug history intact.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the list is not in the user's trash
+   *
+   * @param listId - ID of the trashed list
+   * @returns `{ data: List, error: null }`
+   */
+  .post(
+    "/lists/:listId/restore",
+    async ({ user, params: { listId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await restoreList(user.id, listId);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
       params: t.Object({
         listId: t.Number(),
       }),
@@ -169,25 +594,31 @@ export const lists = new Elysia({ name: "lists" })
   /**
    * DELETE /lists/:listId
    *
-   * Deletes a list owned by the authenticated user.
-   * Associated rows (items, likes, saves, views, slug history) must be
-   * set to cascade at the DB level.
+   * Moves a list owned by the authenticated user to the trash.
+   * Trashed lists are hidden from every listing and can be restored for
+   * 30 days; after that a scheduled job purges them with their items,
+   * likes, saves, views and slug history.
    *
    * Security & behavior:
    * - Requires authentication
-   * - Service enforces ownership; throws 404 if not found/owned
+   * - Requires the owner role via `authorizeRole("list", listId, user.id, "owner")`
+   * - Service also enforces ownership; throws 404 if not found/owned
    *
    * Status codes:
    * - 200 on success
+   * - 403 if the user is a collaborator but not the owner
+   * - 404 if the list does not exist or is already in the trash
    *
    * @param listId - ID of the list to delete
-   * @returns `{ data: DeletedList, error: null }`
+   * @returns `{ data: List & { deletedAt, purgeAt }, error: null }`
    */
   .delete(
     "/lists/:listId",
     async ({ user, params: { listId }, set }) => {
       if (!user) throw httpError(401, "Please login or signup to continue");
 
+      await authorizeRole("list", listId, user.id, "owner");
+
       const result = await deleteList(user.id, listId);
       if (!result) {
         // Service should already 404/500 but this is a safety fallback
@@ -203,4 +634,48 @@ export const lists = new Elysia({ name: "lists" })
         listId: t.Number(),
       }),
     },
+  )
+
+  /**
+   * GET /lists/:listId/analytics
+   *
+   * Returns engagement analytics for a list owned by the authenticated user:
+   * daily unique views, likes and saves, totals for the range, and the
+   * share of views from signed-in versus anonymous visitors.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - Requires the owner role via `authorizeRole("list", listId, user.id, "owner")`
+   * - Days are UTC calendar days; days without activity are included as zeros
+   * - Unique viewers are counted by user ID, or hashed IP for anonymous visitors
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the list does not exist or is not owned by the user
+   *
+   * @param listId - ID of the list
+   * @query days   - Range in days, ending today (1–365, default 30)
+   * @returns `{ data: { range, totals, audience, daily }, error: null }`
+   */
+  .get(
+    "/lists/:listId/analytics",
+    async ({ user, params: { listId }, query: { days }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      await authorizeRole("list", listId, user.id, "owner");
+
+      const result = await getListAnalytics(listId, days ?? 30);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        listId: t.Number(),
+      }),
+      query: t.Object({
+        days: t.Optional(t.Integer({ minimum: 1, maximum: 365 })),
+      }),
+    },
   );
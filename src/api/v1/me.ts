@@ -0,0 +1,183 @@
+import { betterAuth } from "@/middlewares/auth-middleware";
+import { httpError } from "@/lib/httpError";
+import {
+  cancelAccountDeletion,
+  getAccountDeletion,
+  requestAccountDeletion,
+} from "@/services/v1/account-deletion";
+import { createAccountExport } from "@/services/v1/export";
+import {
+  MAX_PROFILE_FAVORITES,
+  MAX_PROFILE_LINKS,
+  updateProfile,
+} from "@/services/v1/profiles";
+import Elysia, { t } from "elysia";
+
+export const me = new Elysia({ name: "me" })
+  .use(betterAuth)
+
+  /**
+   * GET /me/export
+   *
+   * Downloads an archive of everything the authenticated user owns:
+   * profile, movie and TV reviews, lists with their items, liked and saved
+   * lists, list slug history, diary, watchlist, watched episodes, season
+   * ratings, followed users and favorite films. Each data type is included as both JSON and CSV.
+   *
+   * - Requires authentication
+   * - Responds with `application/gzip` (a `.tar.gz` archive), not the JSON envelope
+   * - Data is read from a single consistent snapshot
+   *
+   * @returns The archive as an attachment
+   */
+  .get(
+    "/me/export",
+    async ({ user }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const { fileName, archive } = await createAccountExport(user.id);
+
+      return new Response(archive, {
+        status: 200,
+        headers: {
+          "content-type": "application/gzip",
+          "content-disposition": `attachment; filename="${fileName}"`,
+          "cache-control": "no-store",
+        },
+      });
+    },
+    {
+      auth: true,
+    },
+  )
+
+  /**
+   * PATCH /me/profile
+   *
+   * Updates the authenticated user's public profile. Fields left out of the
+   * body are unchanged. Display name and avatar are managed by the auth
+   * provider.
+   *
+   * - Requires authentication
+   * - `bio` (max 500 characters) and `location` (max 100) are sanitized;
+   *   null or empty clears them
+   * - `links` replaces the profile links (http/https URLs, max 5)
+   * - `favorites` replaces the pinned "top four" films, in order; the films
+   *   must have been viewed on the site before (known locally)
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 on invalid links, text that is too long or unknown/duplicate films
+   *
+   * @body bio       - Profile bio
+   * @body location  - Free-form location
+   * @body links     - Profile links
+   * @body favorites - TMDB movie IDs, up to 4
+   * @returns `{ data: { bio, location, links, favorites }, error: null }`
+   */
+  .patch(
+    "/me/profile",
+    async ({ user, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await updateProfile(user.id, body);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        bio: t.Optional(t.Nullable(t.String())),
+        location: t.Optional(t.Nullable(t.String())),
+        links: t.Optional(t.Array(t.String(), { maxItems: MAX_PROFILE_LINKS })),
+        favorites: t.Optional(
+          t.Array(t.Number(), { maxItems: MAX_PROFILE_FAVORITES }),
+        ),
+      }),
+    },
+  )
+
+  /**
+   * GET /me/deletion
+   *
+   * Returns the authenticated user's pending account deletion, if any.
+   *
+   * @returns `{ data: { requestedAt, scheduledFor } | null, error: null }`
+   */
+  .get(
+    "/me/deletion",
+    async ({ user, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getAccountDeletion(user.id);
+
+      set.status = 200;
+      return { data: result ?? null, error: null };
+    },
+    {
+      auth: true,
+    },
+  )
+
+  /**
+   * POST /me/deletion
+   *
+   * Schedules the authenticated user's account for deletion. After a 30-day
+   * grace period all reviews, lists, likes, saves and tracking data are
+   * removed (views of other users' lists are anonymized).
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - **Idempotent**: repeating the request keeps the original schedule
+   * - The account stays usable until the deletion runs, so it can be cancelled
+   *
+   * Status codes:
+   * - 201 when the deletion is scheduled
+   * - 200 when a deletion was already pending
+   *
+   * @returns `{ data: { requestedAt, scheduledFor }, error: null }`
+   */
+  .post(
+    "/me/deletion",
+    async ({ user, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const { created, deletion } = await requestAccountDeletion(user.id);
+
+      set.status = created ? 201 : 200;
+      return { data: deletion, error: null };
+    },
+    {
+      auth: true,
+    },
+  )
+
+  /**
+   * DELETE /me/deletion
+   *
+   * Cancels a pending account deletion.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if no deletion is pending
+   *
+   * @returns `{ data: null, error: null }`
+   */
+  .delete(
+    "/me/deletion",
+    async ({ user, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const cancelled = await cancelAccountDeletion(user.id);
+      if (!cancelled) {
+        throw httpError(404, "No account deletion is pending");
+      }
+
+      set.status = 200;
+      return { data: null, error: null };
+    },
+    {
+      auth: true,
+    },
+  );
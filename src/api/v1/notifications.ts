@@ -0,0 +1,175 @@
+import { betterAuth } from "@/middlewares/auth-middleware";
+import { httpError } from "@/lib/httpError";
+import {
+  getNotificationPreferences,
+  getNotifications,
+  markAllRead,
+  markGroupRead,
+  updateNotificationPreferences,
+} from "@/services/v1/notifications";
+import Elysia, { t } from "elysia";
+
+const notificationType = t.Union([
+  t.Literal("list_liked"),
+  t.Literal("list_saved"),
+  t.Literal("followed"),
+]);
+
+export const notifications = new Elysia({ name: "notifications" })
+  .use(betterAuth)
+
+  /**
+   * GET /notifications
+   *
+   * Returns the authenticated user's notifications, newest first, grouped by
+   * type, list and read state (e.g. "12 people liked your list").
+   *
+   * - Requires authentication
+   * - Each group has `type`, `list` (null for follows), `unread`, `count`,
+   *   `actorCount`, up to three most recent `actors` and `latestAt`
+   * - Cursor pagination: pass the previous page's `nextCursor` as `cursor`
+   * - Optional `limit` (default 20, max 100)
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 if the cursor is invalid
+   *
+   * @query cursor - Cursor from the previous page
+   * @query limit  - Groups per page
+   * @returns `{ data: { groups, unreadCount, nextCursor }, error: null }`
+   */
+  .get(
+    "/notifications",
+    async ({ user, query: { cursor, limit }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getNotifications(user.id, {
+        cursor,
+        limit: limit ?? 20,
+      });
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      query: t.Object({
+        cursor: t.Optional(t.String()),
+        limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
+      }),
+    },
+  )
+
+  /**
+   * POST /notifications/read
+   *
+   * Marks one notification group as read.
+   *
+   * - Requires authentication
+   * - The group is identified by `type` and `listId` (null for follows)
+   *
+   * Status codes:
+   * - 200 on success
+   *
+   * @body type   - Notification type of the group
+   * @body listId - List of the group, or null
+   * @returns `{ data: { updated: number }, error: null }`
+   */
+  .post(
+    "/notifications/read",
+    async ({ user, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await markGroupRead(user.id, body);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        type: notificationType,
+        listId: t.Nullable(t.Number()),
+      }),
+    },
+  )
+
+  /**
+   * POST /notifications/read-all
+   *
+   * Marks all of the authenticated user's notifications as read.
+   *
+   * Status codes:
+   * - 200 on success
+   *
+   * @returns `{ data: { updated: number }, error: null }`
+   */
+  .post(
+    "/notifications/read-all",
+    async ({ user, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await markAllRead(user.id);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    { auth: true },
+  )
+
+  /**
+   * GET /notifications/preferences
+   *
+   * Returns which notification types are enabled for the authenticated user.
+   *
+   * Status codes:
+   * - 200 on success
+   *
+   * @returns `{ data: { list_liked: boolean, list_saved: boolean, followed: boolean }, error: null }`
+   */
+  .get(
+    "/notifications/preferences",
+    async ({ user, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const preferences = await getNotificationPreferences(user.id);
+
+      set.status = 200;
+      return { data: preferences, error: null };
+    },
+    { auth: true },
+  )
+
+  /**
+   * PATCH /notifications/preferences
+   *
+   * Enables (true) or mutes (false) notification types. Types left out of the
+   * body are unchanged. Muting only stops new notifications.
+   *
+   * Status codes:
+   * - 200 on success
+   *
+   * @body list_liked - Someone liked one of your lists
+   * @body list_saved - Someone saved one of your lists
+   * @body followed   - Someone followed you
+   * @returns `{ data: { list_liked: boolean, list_saved: boolean, followed: boolean }, error: null }`
+   */
+  .patch(
+    "/notifications/preferences",
+    async ({ user, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const preferences = await updateNotificationPreferences(user.id, body);
+
+      set.status = 200;
+      return { data: preferences, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        list_liked: t.Optional(t.Boolean()),
+        list_saved: t.Optional(t.Boolean()),
+        followed: t.Optional(t.Boolean()),
+      }),
+    },
+  );
@@ -0,0 +1,57 @@
+import { betterAuth } from "@/middlewares/auth-middleware";
+import { httpError } from "@/lib/httpError";
+import { subscribe } from "@/lib/realtime";
+import { getRealtimeTopics } from "@/services/v1/realtime";
+import Elysia, { sse, t } from "elysia";
+
+export const realtime = new Elysia({ name: "realtime" })
+  .use(betterAuth)
+
+  /**
+   * GET /realtime
+   *
+   * Opens a Server-Sent Events stream of live updates for the authenticated
+   * user. Events fan out through Postgres LISTEN/NOTIFY, so every server
+   * instance delivers them.
+   *
+   * Events:
+   * - `notification` - A new notification (`{ id, type, listId, createdAt }`);
+   *   refetch `GET /notifications`
+   * - `library` - Review, watchlist or list membership changed in another tab
+   *   (`{ media: { mediaType, mediaId }[] }`, split over several events for
+   *   large changes); refetch `POST /library/state`
+   * - `list_counts` - Live `{ listId, likeCount, saveCount }` for the list
+   *   given by `listId`
+   * - `ping` - Heartbeat sent when the stream is idle
+   *
+   * - Requires authentication
+   * - Optional `listId` subscribes to that list's counts (the list must be
+   *   visible to the user)
+   *
+   * Status codes:
+   * - 200 on success (the stream stays open)
+   * - 404 if the list does not exist or is private
+   *
+   * @query listId - List page being viewed
+   * @returns `text/event-stream`
+   */
+  .get(
+    "/realtime",
+    async function* ({ user, query: { listId }, request }) {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const topics = await getRealtimeTopics(user.id, listId);
+
+      for await (const event of subscribe(topics, request.signal)) {
+        yield event
+          ? sse({ event: event.event, data: event.data })
+          : sse({ event: "ping", data: "" });
+      }
+    },
+    {
+      auth: true,
+      query: t.Object({
+        listId: t.Optional(t.Number()),
+      }),
+    },
+  );
@@ -1,5 +1,6 @@
 import { betterAuth } from "@/middlewares/auth-middleware";
 import { httpError } from "@/lib/httpError";
+import { rawTextMaxLength } from "@/lib/sanitize-text";
 import {
   addReview,
   deleteReview,
@@ -7,6 +8,8 @@ import {
   getAvgRating,
   getReview,
   getLibraryRow,
+  REVIEW_MAX_LENGTH,
+  updateReviewText,
 } from "@/services/v1/reviews";
 import Elysia, { t } from "elysia";
 
@@ -82,22 +85,39 @@ export const reviews = new Elysia({ name: "reviews" })
    *
    * - Requires authentication
    * - Server validates rating format/constraints
-   * - Upsert semantics: on conflict (same user + media), rating is updated
+   * - Optional review text is sanitized and length-limited server-side
+   * - Upsert semantics: on conflict (same user + media), rating is updated;
+   *   review text is only replaced when `review` is sent
    *
    * Status codes:
    * - 201 on create/update success
+   * - 400 if the rating is invalid or the review text is too long
    *
    * @param mediaType - "movie" | "tv"
    * @param mediaId   - TMDB media ID
    * @body rating     - String rating (validated server-side)
+   * @body review     - Optional review text (`null` clears it)
+   * @body removeFromWatchlist - Optionally remove the title from the watchlist
    * @returns `{ data: ReviewRow, error: null }`
    */
   .post(
     "/reviews/:mediaType/:mediaId",
-    async ({ user, params: { mediaType, mediaId }, body: { rating }, set }) => {
+    async ({
+      user,
+      params: { mediaType, mediaId },
+      body: { rating, review, removeFromWatchlist },
+      set,
+    }) => {
       if (!user) throw httpError(401, "Please login or signup to continue");
 
-      const reviewData = { userId: user.id, mediaType, mediaId, rating };
+      const reviewData = {
+        userId: user.id,
+        mediaType,
+        mediaId,
+        rating,
+        review,
+        removeFromWatchlist,
+      };
       await addReview(reviewData);
 
       // Return a single "library row" so clients can reconcile efficiently
@@ -113,6 +133,64 @@ export const reviews = new Elysia({ name: "reviews" })
       }),
       body: t.Object({
         rating: t.String(),
+        review: t.Optional(
+          t.Nullable(
+            t.String({ maxLength: rawTextMaxLength(REVIEW_MAX_LENGTH) }),
+          ),
+        ),
+        removeFromWatchlist: t.Optional(t.Boolean()),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /reviews/:mediaType/:mediaId
+   *
+   * Edits the text of the authenticated user's existing review.
+   *
+   * - Requires authentication
+   * - Review text is sanitized and length-limited server-side
+   * - Sending `null` or an empty string clears the text (the rating is kept)
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 if the text is too long
+   * - 404 if the user has not rated the item yet
+   *
+   * @param mediaType - "movie" | "tv"
+   * @param mediaId   - TMDB media ID
+   * @body review     - Review text or `null`
+   * @returns `{ data: ReviewRow, error: null }`
+   */
+  .patch(
+    "/reviews/:mediaType/:mediaId",
+    async ({ user, params: { mediaType, mediaId }, body: { review }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const updated = await updateReviewText(
+        user.id,
+        mediaType,
+        mediaId,
+        review,
+      );
+      if (!updated) {
+        throw httpError(404, "Review not found");
+      }
+
+      const row = await getLibraryRow(user.id, mediaType, mediaId);
+      set.status = 200;
+      return { data: row, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        mediaType: t.Union([t.Literal("movie"), t.Literal("tv")]),
+        mediaId: t.Number(),
+      }),
+      body: t.Object({
+        review: t.Nullable(
+          t.String({ maxLength: rawTextMaxLength(REVIEW_MAX_LENGTH) }),
+        ),
       }),
     },
   )
@@ -0,0 +1,279 @@
+import { betterAuth } from "@/middlewares/auth-middleware";
+import { httpError } from "@/lib/httpError";
+import {
+  deleteSeasonRating,
+  getSeriesProgress,
+  getUpNext,
+  markEpisodeWatched,
+  markSeasonWatched,
+  rateSeason,
+  unmarkEpisodeWatched,
+  unmarkSeasonWatched,
+} from "@/services/v1/tv";
+import Elysia, { t } from "elysia";
+
+const seasonParams = t.Object({
+  seriesId: t.Number(),
+  seasonNumber: t.Number({ minimum: 0 }),
+});
+
+const episodeParams = t.Object({
+  seriesId: t.Number(),
+  seasonNumber: t.Number({ minimum: 0 }),
+  episodeNumber: t.Number({ minimum: 1 }),
+});
+
+export const tvTracking = new Elysia({ name: "tv" })
+  .use(betterAuth)
+
+  /**
+   * GET /tv/up-next
+   *
+   * Returns series the authenticated user has started but not finished,
+   * with the next episode's number, name and air date. Episodes that have
+   * already aired come first, then upcoming ones by soonest air date.
+   *
+   * - Requires authentication
+   * - Served from locally stored metadata (a few stale series are refreshed
+   *   from TMDB per request)
+   * - Optional `limit` query param (default 50)
+   *
+   * @query limit - Max number of series to return
+   * @returns `{ data: UpNextItem[], error: null }`
+   */
+  .get(
+    "/tv/up-next",
+    async ({ user, query: { limit }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getUpNext(user.id, limit ?? 50);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      query: t.Object({
+        limit: t.Optional(t.Number({ minimum: 1, maximum: 200 })),
+      }),
+    },
+  )
+
+  /**
+   * GET /tv/:seriesId/progress
+   *
+   * Returns the authenticated user's progress through a series,
+   * e.g. "14/22 episodes, S2E3 up next", with a per-season breakdown.
+   *
+   * - Requires authentication
+   * - Season/episode metadata is served from the local DB and refreshed
+   *   from TMDB only when stale
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the series does not exist
+   *
+   * @param seriesId - TMDB series ID
+   * @returns `{ data: SeriesProgress, error: null }`
+   */
+  .get(
+    "/tv/:seriesId/progress",
+    async ({ user, params: { seriesId }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getSeriesProgress(user.id, seriesId);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        seriesId: t.Number(),
+      }),
+    },
+  )
+
+  /**
+   * PUT /tv/:seriesId/seasons/:seasonNumber/episodes/:episodeNumber
+   *
+   * Marks a single aired episode as watched (idempotent).
+   * Once every aired episode is logged, the series review is marked watched.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 if the episode has not aired yet
+   * - 404 if the series, season or episode does not exist
+   *
+   * @returns `{ data: SeriesProgress, error: null }`
+   */
+  .put(
+    "/tv/:seriesId/seasons/:seasonNumber/episodes/:episodeNumber",
+    async ({
+      user,
+      params: { seriesId, seasonNumber, episodeNumber },
+      set,
+    }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await markEpisodeWatched(user.id, seriesId, {
+        seasonNumber,
+        episodeNumber,
+      });
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: episodeParams,
+    },
+  )
+
+  /**
+   * DELETE /tv/:seriesId/seasons/:seasonNumber/episodes/:episodeNumber
+   *
+   * Unmarks a watched episode (idempotent).
+   *
+   * @returns `{ data: SeriesProgress, error: null }`
+   */
+  .delete(
+    "/tv/:seriesId/seasons/:seasonNumber/episodes/:episodeNumber",
+    async ({
+      user,
+      params: { seriesId, seasonNumber, episodeNumber },
+      set,
+    }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await unmarkEpisodeWatched(user.id, seriesId, {
+        seasonNumber,
+        episodeNumber,
+      });
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: episodeParams,
+    },
+  )
+
+  /**
+   * PUT /tv/:seriesId/seasons/:seasonNumber
+   *
+   * Marks every aired episode of a season as watched (idempotent).
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 if the season has not aired yet
+   * - 404 if the series or season does not exist
+   *
+   * @returns `{ data: SeriesProgress, error: null }`
+   */
+  .put(
+    "/tv/:seriesId/seasons/:seasonNumber",
+    async ({ user, params: { seriesId, seasonNumber }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await markSeasonWatched(user.id, seriesId, seasonNumber);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: seasonParams,
+    },
+  )
+
+  /**
+   * DELETE /tv/:seriesId/seasons/:seasonNumber
+   *
+   * Unmarks every watched episode of a season (idempotent).
+   *
+   * @returns `{ data: SeriesProgress, error: null }`
+   */
+  .delete(
+    "/tv/:seriesId/seasons/:seasonNumber",
+    async ({ user, params: { seriesId, seasonNumber }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await unmarkSeasonWatched(user.id, seriesId, seasonNumber);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: seasonParams,
+    },
+  )
+
+  /**
+   * PUT /tv/:seriesId/seasons/:seasonNumber/rating
+   *
+   * Creates or updates the authenticated user's rating for a season.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 400 if the rating is invalid
+   * - 404 if the series or season does not exist
+   *
+   * @body rating - String rating (validated server-side)
+   * @returns `{ data: SeriesProgress, error: null }`
+   */
+  .put(
+    "/tv/:seriesId/seasons/:seasonNumber/rating",
+    async ({ user, params: { seriesId, seasonNumber }, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await rateSeason(
+        user.id,
+        seriesId,
+        seasonNumber,
+        body.rating,
+      );
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: seasonParams,
+      body: t.Object({
+        rating: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * DELETE /tv/:seriesId/seasons/:seasonNumber/rating
+   *
+   * Deletes the authenticated user's rating for a season.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if there was no rating to delete
+   *
+   * @returns `{ data: null, error: null }`
+   */
+  .delete(
+    "/tv/:seriesId/seasons/:seasonNumber/rating",
+    async ({ user, params: { seriesId, seasonNumber }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const deleted = await deleteSeasonRating(user.id, seriesId, seasonNumber);
+      if (!deleted) {
+        throw httpError(404, "Season rating not found");
+      }
+
+      set.status = 200;
+      return { data: null, error: null };
+    },
+    {
+      auth: true,
+      params: seasonParams,
+    },
+  );
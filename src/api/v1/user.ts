@@ -3,10 +3,84 @@ import Elysia, { t } from "elysia";
 import { auth } from "@/lib/auth";
 import { betterAuth } from "@/middlewares/auth-middleware";
 import { getListData, getListsByUsername, trackUniqueView } from "@/services/v1/lists";
+import { getProfile } from "@/services/v1/profiles";
+import { getUserStats } from "@/services/v1/stats";
 
 export const user = new Elysia({ name: "user", prefix: "/user" })
   .use(betterAuth)
 
+  /**
+   * GET /user/:username
+   *
+   * Public profile for a user: display name, avatar, bio, location, links,
+   * join date, pinned "top four" favorite films, counts and recent ratings.
+   *
+   * Behavior & security:
+   * - No authentication required
+   * - `isFollowing` is set when a signed-in viewer follows the user
+   * - `stats.lists` counts public lists only, unless the viewer is the owner
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the user does not exist
+   *
+   * @param username - The user's username
+   * @returns `{ data: { username, displayUsername, name, image, joinedAt, bio, location, links, favorites, stats: { filmsWatched, seriesWatched, ratings, lists, followers, following }, isFollowing, recentRatings }, error: null }`
+   */
+  .get(
+    "/:username",
+    async ({ request, params: { username }, set }) => {
+      const session = await auth.api.getSession({ headers: request.headers });
+
+      const result = await getProfile(username, session?.user?.id);
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      params: t.Object({
+        username: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * GET /user/:username/stats
+   *
+   * Viewing statistics for a user, for one calendar year (year in review)
+   * or all time.
+   *
+   * Behavior & security:
+   * - No authentication required
+   * - Watches come from the diary (plus titles marked watched without a
+   *   diary entry); ratings from reviews created in the period
+   * - Genres, runtimes and credits come from locally stored metadata, so no
+   *   TMDB calls are made
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the user does not exist
+   *
+   * @param username - The user's username
+   * @query year     - Optional year (UTC); all time when omitted
+   * @returns `{ data: { year, watched: { films, series, byMonth }, hoursWatched, ratings: { count, average, distribution, highest, lowest }, topGenres, topDirectors, topActors }, error: null }`
+   */
+  .get(
+    "/:username/stats",
+    async ({ params: { username }, query: { year }, set }) => {
+      const result = await getUserStats(username, year);
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      params: t.Object({
+        username: t.String(),
+      }),
+      query: t.Object({
+        year: t.Optional(t.Integer({ minimum: 1900, maximum: 2100 })),
+      }),
+    },
+  )
+
   /**
    * GET /user/:username/lists
    *
@@ -14,6 +88,7 @@ export const user = new Elysia({ name: "user", prefix: "/user" })
    *
    * Behavior & security:
    * - No authentication required
+   * - Only public lists are returned, unless the signed-in viewer is the owner
    * - Stable response shape: `{ data, error: null }`
    *
    * Status codes:
@@ -25,8 +100,10 @@ export const user = new Elysia({ name: "user", prefix: "/user" })
    */
   .get(
     "/:username/lists",
-    async ({ params: { username }, set }) => {
-      const results = await getListsByUsername(username);
+    async ({ request, params: { username }, set }) => {
+      const session = await auth.api.getSession({ headers: request.headers });
+
+      const results = await getListsByUsername(username, session?.user?.id);
       set.status = 200;
       return { data: results, error: null };
     },
@@ -48,14 +125,18 @@ export const user = new Elysia({ name: "user", prefix: "/user" })
    * - No authentication required
    * - Session is derived from the incoming request headers if present
    * - View tracking is best-effort and does not expose PII (IP is hashed in the service)
+   * - Items are returned in the list's manual order; ranked lists number them via `rank`
+   * - Forks include `forkedFrom` attribution; `list.forkCount` counts forks of this list
+   * - Old slugs (from before a rename) still resolve; `canonicalSlug` is the
+   *   current slug, so clients should replace the URL when it differs from `slug`
    *
    * Status codes:
    * - 200 on success
-   * - 404 if the list does not exist (thrown by service)
+   * - 404 if the list does not exist or is private and the viewer is not a member (thrown by service)
    *
    * @param username - Owner's username
-   * @param slug     - List slug
-   * @returns `{ data: { list, isLiked, isSaved, listItems }, error: null }`
+   * @param slug     - Current or previous list slug
+   * @returns `{ data: { list, canonicalSlug, isLiked, isSaved, viewerRole, forkedFrom, listItems }, error: null }`
    */
   .get(
     "/:username/lists/:slug",
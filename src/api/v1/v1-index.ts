@@ -1,19 +1,41 @@
 import { Elysia } from "elysia";
 import { trending } from "./trending";
+import { tvTracking } from "./tv";
 import { details } from "./details";
+import { library } from "./library";
 import { lists } from "./lists";
 import { listItems } from "./list-items";
+import { listCollaborators } from "./list-collaborators";
 import { reviews } from "./reviews";
 import { actions } from "./actions";
 import { user } from "./user";
 import { demo } from "./demo";
+import { watchlist } from "./watchlist";
+import { diary } from "./diary";
+import { feed } from "./feed";
+import { follows } from "./follows";
+import { imports } from "./imports";
+import { me } from "./me";
+import { notifications } from "./notifications";
+import { realtime } from "./realtime";
 
 export const v1 = new Elysia({ name: "apiV1", prefix: "/v1" })
   .use(actions)
   .use(demo)
   .use(details)
+  .use(diary)
+  .use(feed)
+  .use(follows)
+  .use(imports)
+  .use(library)
+  .use(listCollaborators)
   .use(lists)
   .use(listItems)
+  .use(me)
+  .use(notifications)
+  .use(realtime)
   .use(reviews)
   .use(trending)
-  .use(user);
+  .use(tvTracking)
+  .use(user)
+  .use(watchlist);
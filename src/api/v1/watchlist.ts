@@ -0,0 +1,166 @@
+import { betterAuth } from "@/middlewares/auth-middleware";
+import { httpError } from "@/lib/httpError";
+import {
+  addToWatchlist,
+  getWatchlist,
+  removeFromWatchlist,
+  updateWatchlistItem,
+} from "@/services/v1/watchlist";
+import Elysia, { t } from "elysia";
+
+const priority = t.Union([
+  t.Literal("low"),
+  t.Literal("normal"),
+  t.Literal("high"),
+]);
+
+export const watchlist = new Elysia({ name: "watchlist" })
+  .use(betterAuth)
+
+  /**
+   * GET /watchlist
+   *
+   * Returns the authenticated user's watchlist. Every user has exactly one
+   * watchlist; it exists implicitly and cannot be deleted.
+   *
+   * - Requires authentication
+   * - Optional `sort`: "added" (default, newest first) or "priority"
+   *
+   * @query sort - "added" | "priority"
+   * @returns `{ data: WatchlistItem[], error: null }`
+   */
+  .get(
+    "/watchlist",
+    async ({ user, query: { sort }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await getWatchlist(user.id, sort);
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      query: t.Object({
+        sort: t.Optional(t.Union([t.Literal("added"), t.Literal("priority")])),
+      }),
+    },
+  )
+
+  /**
+   * POST /watchlist
+   *
+   * Adds a movie or TV series to the authenticated user's watchlist.
+   *
+   * Security & behavior:
+   * - Requires authentication
+   * - **Idempotent**: re-adding returns the existing item (updating its
+   *   priority when one is sent)
+   *
+   * Status codes:
+   * - 201 when a new item is created
+   * - 200 when the item already existed
+   *
+   * @body mediaType - "movie" | "tv"
+   * @body mediaId   - TMDB media ID
+   * @body priority  - Optional "low" | "normal" | "high" (default "normal")
+   * @returns `{ data: { created: boolean, item }, error: null }`
+   */
+  .post(
+    "/watchlist",
+    async ({ user, body: { mediaType, mediaId, priority }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await addToWatchlist(
+        user.id,
+        mediaType,
+        mediaId,
+        priority,
+      );
+
+      if (!result) {
+        throw httpError(500, "Failed to add to watchlist! Please try again");
+      }
+
+      set.status = result.created ? 201 : 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        mediaType: t.Union([t.Literal("movie"), t.Literal("tv")]),
+        mediaId: t.Number(),
+        priority: t.Optional(priority),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /watchlist/:id
+   *
+   * Updates the priority of a watchlist item.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the item does not exist or belongs to another user
+   *
+   * @param id - Watchlist item ID
+   * @body priority - "low" | "normal" | "high"
+   * @returns `{ data: WatchlistItem, error: null }`
+   */
+  .patch(
+    "/watchlist/:id",
+    async ({ user, params: { id }, body, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await updateWatchlistItem(user.id, id, body.priority);
+      if (!result) {
+        throw httpError(404, "Watchlist item not found");
+      }
+
+      set.status = 200;
+      return { data: result, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        id: t.Number(),
+      }),
+      body: t.Object({
+        priority,
+      }),
+    },
+  )
+
+  /**
+   * DELETE /watchlist/:id
+   *
+   * Removes an item from the authenticated user's watchlist.
+   *
+   * Status codes:
+   * - 200 on success
+   * - 404 if the item does not exist or belongs to another user
+   *
+   * @param id - Watchlist item ID
+   * @returns `{ data: null, error: null }`
+   */
+  .delete(
+    "/watchlist/:id",
+    async ({ user, params: { id }, set }) => {
+      if (!user) throw httpError(401, "Please login or signup to continue");
+
+      const result = await removeFromWatchlist(user.id, id);
+      if (!result) {
+        throw httpError(404, "Watchlist item not found");
+      }
+
+      set.status = 200;
+      return { data: null, error: null };
+    },
+    {
+      auth: true,
+      params: t.Object({
+        id: t.Number(),
+      }),
+    },
+  );
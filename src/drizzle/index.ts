@@ -4,3 +4,5 @@ import postgres from "postgres";
 // Disable prefetch as it is not supported for "Transaction" pool mode
 const client = postgres(process.env.DATABASE_URL!, { prepare: false });
 export const db = drizzle({ client });
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
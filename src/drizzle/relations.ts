@@ -14,6 +14,18 @@ import {
   listSlugHistory,
   tvReview,
   movieReview,
+  diaryEntry,
+  tvEpisodeWatch,
+  tvSeasonReview,
+  watchlistItem,
+  accountDeletion,
+  listCollaborator,
+  follow,
+  activity,
+  notification,
+  notificationMute,
+  profile,
+  profileFavorite,
 } from "./schema";
 
 export const savedListRelations = relations(listSaves, ({ one }) => ({
@@ -37,9 +49,10 @@ export const listRelations = relations(list, ({ one, many }) => ({
   likedLists: many(listLikes),
   listItems: many(listItem),
   listSlugHistories: many(listSlugHistory),
+  collaborators: many(listCollaborator),
 }));
 
-export const userRelations = relations(user, ({ many }) => ({
+export const userRelations = relations(user, ({ one, many }) => ({
   savedLists: many(listSaves),
   lists: many(list),
   listViews: many(listView),
@@ -49,6 +62,21 @@ export const userRelations = relations(user, ({ many }) => ({
   accounts: many(account),
   tvReviews: many(tvReview),
   movieReviews: many(movieReview),
+  diaryEntries: many(diaryEntry),
+  tvEpisodeWatches: many(tvEpisodeWatch),
+  tvSeasonReviews: many(tvSeasonReview),
+  watchlistItems: many(watchlistItem),
+  accountDeletions: many(accountDeletion),
+  listCollaborations: many(listCollaborator),
+  following: many(follow, { relationName: "follow_followerId_user_id" }),
+  followers: many(follow, { relationName: "follow_followingId_user_id" }),
+  activities: many(activity),
+  notifications: many(notification, {
+    relationName: "notification_userId_user_id",
+  }),
+  notificationMutes: many(notificationMute),
+  profile: one(profile),
+  profileFavorites: many(profileFavorite),
 }));
 
 export const listViewRelations = relations(listView, ({ one }) => ({
@@ -112,11 +140,18 @@ export const listItemRelations = relations(listItem, ({ one }) => ({
 export const movieRelations = relations(movie, ({ many }) => ({
   listItems: many(listItem),
   movieReviews: many(movieReview),
+  diaryEntries: many(diaryEntry),
+  watchlistItems: many(watchlistItem),
+  profileFavorites: many(profileFavorite),
 }));
 
 export const tvRelations = relations(tv, ({ many }) => ({
   listItems: many(listItem),
   tvReviews: many(tvReview),
+  diaryEntries: many(diaryEntry),
+  tvEpisodeWatches: many(tvEpisodeWatch),
+  tvSeasonReviews: many(tvSeasonReview),
+  watchlistItems: many(watchlistItem),
 }));
 
 export const listSlugHistoryRelations = relations(
@@ -150,3 +185,159 @@ export const movieReviewRelations = relations(movieReview, ({ one }) => ({
     references: [movie.id],
   }),
 }));
+
+export const diaryEntryRelations = relations(diaryEntry, ({ one }) => ({
+  user: one(user, {
+    fields: [diaryEntry.userId],
+    references: [user.id],
+  }),
+  movie: one(movie, {
+    fields: [diaryEntry.movieId],
+    references: [movie.id],
+  }),
+  tv: one(tv, {
+    fields: [diaryEntry.seriesId],
+    references: [tv.id],
+  }),
+}));
+
+export const tvEpisodeWatchRelations = relations(tvEpisodeWatch, ({ one }) => ({
+  user: one(user, {
+    fields: [tvEpisodeWatch.userId],
+    references: [user.id],
+  }),
+  tv: one(tv, {
+    fields: [tvEpisodeWatch.seriesId],
+    references: [tv.id],
+  }),
+}));
+
+export const tvSeasonReviewRelations = relations(tvSeasonReview, ({ one }) => ({
+  user: one(user, {
+    fields: [tvSeasonReview.userId],
+    references: [user.id],
+  }),
+  tv: one(tv, {
+    fields: [tvSeasonReview.seriesId],
+    references: [tv.id],
+  }),
+}));
+
+export const watchlistItemRelations = relations(watchlistItem, ({ one }) => ({
+  user: one(user, {
+    fields: [watchlistItem.userId],
+    references: [user.id],
+  }),
+  movie: one(movie, {
+    fields: [watchlistItem.movieId],
+    references: [movie.id],
+  }),
+  tv: one(tv, {
+    fields: [watchlistItem.seriesId],
+    references: [tv.id],
+  }),
+}));
+
+export const accountDeletionRelations = relations(
+  accountDeletion,
+  ({ one }) => ({
+    user: one(user, {
+      fields: [accountDeletion.userId],
+      references: [user.id],
+    }),
+  }),
+);
+
+export const listCollaboratorRelations = relations(
+  listCollaborator,
+  ({ one }) => ({
+    list: one(list, {
+      fields: [listCollaborator.listId],
+      references: [list.id],
+    }),
+    user: one(user, {
+      fields: [listCollaborator.userId],
+      references: [user.id],
+    }),
+  }),
+);
+
+export const followRelations = relations(follow, ({ one }) => ({
+  follower: one(user, {
+    fields: [follow.followerId],
+    references: [user.id],
+    relationName: "follow_followerId_user_id",
+  }),
+  following: one(user, {
+    fields: [follow.followingId],
+    references: [user.id],
+    relationName: "follow_followingId_user_id",
+  }),
+}));
+
+export const activityRelations = relations(activity, ({ one }) => ({
+  user: one(user, {
+    fields: [activity.userId],
+    references: [user.id],
+  }),
+  movie: one(movie, {
+    fields: [activity.movieId],
+    references: [movie.id],
+  }),
+  tv: one(tv, {
+    fields: [activity.seriesId],
+    references: [tv.id],
+  }),
+  list: one(list, {
+    fields: [activity.listId],
+    references: [list.id],
+  }),
+}));
+
+export const notificationRelations = relations(notification, ({ one }) => ({
+  user: one(user, {
+    fields: [notification.userId],
+    references: [user.id],
+    relationName: "notification_userId_user_id",
+  }),
+  actor: one(user, {
+    fields: [notification.actorId],
+    references: [user.id],
+    relationName: "notification_actorId_user_id",
+  }),
+  list: one(list, {
+    fields: [notification.listId],
+    references: [list.id],
+  }),
+}));
+
+export const notificationMuteRelations = relations(
+  notificationMute,
+  ({ one }) => ({
+    user: one(user, {
+      fields: [notificationMute.userId],
+      references: [user.id],
+    }),
+  }),
+);
+
+export const profileRelations = relations(profile, ({ one }) => ({
+  user: one(user, {
+    fields: [profile.userId],
+    references: [user.id],
+  }),
+}));
+
+export const profileFavoriteRelations = relations(
+  profileFavorite,
+  ({ one }) => ({
+    user: one(user, {
+      fields: [profileFavorite.userId],
+      references: [user.id],
+    }),
+    movie: one(movie, {
+      fields: [profileFavorite.movieId],
+      references: [movie.id],
+    }),
+  }),
+);
@@ -1,11 +1,16 @@
 import { sql } from "drizzle-orm";
+import type { CreditSummary } from "@/types/credits";
+import type { TvEpisodeSummary, TvSeasonSummary } from "@/types/tv";
 import {
   bigint,
   bigserial,
   boolean,
   check,
   date,
+  doublePrecision,
+  index,
   integer,
+  jsonb,
   numeric,
   pgTable,
   primaryKey,
@@ -96,6 +101,20 @@ export const movie = pgTable("movie", {
   backdropPath: text("backdrop_path").default(""),
   releaseDate: date("release_date"),
   slug: text("slug").unique(),
+  // TMDB metadata used for user stats (null until the details are fetched)
+  runtime: integer("runtime"),
+  genres: jsonb("genres").$type<string[]>(),
+  directors: jsonb("directors").$type<CreditSummary[]>(),
+  cast: jsonb("cast").$type<CreditSummary[]>(),
+  metadataUpdatedAt: timestamp("metadata_updated_at", {
+    withTimezone: true,
+    mode: "date",
+  }),
+  // Last failed stats metadata backfill (retried after a back-off)
+  metadataFailedAt: timestamp("metadata_failed_at", {
+    withTimezone: true,
+    mode: "date",
+  }),
 });
 
 export const movieReview = pgTable(
@@ -135,6 +154,24 @@ export const tv = pgTable("tv", {
   backdropPath: text("backdrop_path").default(""),
   releaseDate: date("release_date").notNull(),
   slug: text("slug").unique(),
+  inProduction: boolean("in_production"),
+  seasons: jsonb("seasons").$type<TvSeasonSummary[]>(),
+  lastEpisodeToAir: jsonb("last_episode_to_air").$type<TvEpisodeSummary>(),
+  nextEpisodeToAir: jsonb("next_episode_to_air").$type<TvEpisodeSummary>(),
+  // Typical episode length in minutes
+  runtime: integer("runtime"),
+  genres: jsonb("genres").$type<string[]>(),
+  creators: jsonb("creators").$type<CreditSummary[]>(),
+  cast: jsonb("cast").$type<CreditSummary[]>(),
+  metadataUpdatedAt: timestamp("metadata_updated_at", {
+    withTimezone: true,
+    mode: "date",
+  }),
+  // Last failed stats metadata backfill (retried after a back-off)
+  metadataFailedAt: timestamp("metadata_failed_at", {
+    withTimezone: true,
+    mode: "date",
+  }),
 });
 
 export const tvReview = pgTable(
@@ -167,23 +204,42 @@ export const tvReview = pgTable(
   (table) => [primaryKey({ columns: [table.userId, table.seriesId] })],
 );
 
-export const list = pgTable("list", {
-  id: bigserial("id", { mode: "number" }).primaryKey(),
-  userId: text("user_id")
-    .notNull()
-    .references(() => user.id, {
-      onUpdate: "no action",
-      onDelete: "no action",
-    }),
-  name: text("name").notNull(),
-  likeCount: integer("like_count").default(0).notNull(),
-  saveCount: integer("save_count").default(0).notNull(),
-  slug: text("slug").notNull(),
-  createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
-    .notNull()
-    .defaultNow(),
-  updatedAt: timestamp("updated_at", { withTimezone: true, mode: "date" }),
-});
+export const list = pgTable(
+  "list",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    name: text("name").notNull(),
+    likeCount: integer("like_count").default(0).notNull(),
+    saveCount: integer("save_count").default(0).notNull(),
+    slug: text("slug").notNull(),
+    isRanked: boolean("is_ranked").notNull().default(false),
+    description: text("description"),
+    // List item whose backdrop is used as the cover (cleared when the item is removed)
+    coverItemId: bigint("cover_item_id", { mode: "number" }),
+    visibility: text("visibility").notNull().default("public"),
+    // Source list of a fork (cleared when the source is deleted)
+    forkedFromId: bigint("forked_from_id", { mode: "number" }),
+    forkCount: integer("fork_count").default(0).notNull(),
+    // Set when the list is moved to the trash (purged after the retention period)
+    deletedAt: timestamp("deleted_at", { withTimezone: true, mode: "date" }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "date" }),
+  },
+  (table) => [
+    check(
+      "list_visibility",
+      sql`${table.visibility} IN ('public', 'unlisted', 'private')`,
+    ),
+  ],
+);
 
 export const listSlugHistory = pgTable("list_slug_history", {
   id: bigserial("id", { mode: "number" }).primaryKey(),
@@ -219,6 +275,11 @@ export const listItem = pgTable(
       onDelete: "no action",
     }),
     mediaType: text("media_type").notNull(),
+    // Sparse sort key (ascending); see services/v1/list-order.ts
+    position: doublePrecision("position").notNull().default(0),
+    // Curator's commentary on the entry
+    note: text("note"),
+    hasSpoilers: boolean("has_spoilers").notNull().default(false),
     createdAt: timestamp("created_at", {
       withTimezone: true,
       mode: "date",
@@ -232,6 +293,7 @@ export const listItem = pgTable(
       table.movieId,
       table.seriesId,
     ),
+    index("listItemListPosition").on(table.listId, table.position),
   ],
 );
 
@@ -316,3 +378,367 @@ export const listView = pgTable(
     ),
   ],
 );
+
+export const diaryEntry = pgTable(
+  "diary_entry",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    mediaType: text("media_type").notNull(),
+    movieId: bigint("movie_id", { mode: "number" }).references(() => movie.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+    seriesId: bigint("series_id", { mode: "number" }).references(() => tv.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+    watchedOn: date("watched_on").notNull(),
+    rewatch: boolean("rewatch").notNull().default(false),
+    rating: numeric("rating", { precision: 2, scale: 1 }),
+    note: text("note"),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("diaryEntryUserWatchedOn").on(table.userId, table.watchedOn),
+    check(
+      "diary_entry_one_media",
+      sql`(${table.movieId} IS NULL) <> (${table.seriesId} IS NULL)`,
+    ),
+  ],
+);
+
+export const tvEpisodeWatch = pgTable(
+  "tv_episode_watch",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    seriesId: bigint("series_id", { mode: "number" })
+      .notNull()
+      .references(() => tv.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    seasonNumber: integer("season_number").notNull(),
+    episodeNumber: integer("episode_number").notNull(),
+    watchedAt: timestamp("watched_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [
+        table.userId,
+        table.seriesId,
+        table.seasonNumber,
+        table.episodeNumber,
+      ],
+    }),
+  ],
+);
+
+export const tvSeasonReview = pgTable(
+  "tv_season_review",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    seriesId: bigint("series_id", { mode: "number" })
+      .notNull()
+      .references(() => tv.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    seasonNumber: integer("season_number").notNull(),
+    rating: numeric("rating", { precision: 2, scale: 1 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.userId, table.seriesId, table.seasonNumber],
+    }),
+  ],
+);
+
+export const watchlistItem = pgTable(
+  "watchlist_item",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    mediaType: text("media_type").notNull(),
+    movieId: bigint("movie_id", { mode: "number" }).references(() => movie.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+    seriesId: bigint("series_id", { mode: "number" }).references(() => tv.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+    priority: integer("priority").notNull().default(1),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("uniqueWatchlistMovie")
+      .on(table.userId, table.movieId)
+      .where(sql`${table.movieId} IS NOT NULL`),
+    uniqueIndex("uniqueWatchlistSeries")
+      .on(table.userId, table.seriesId)
+      .where(sql`${table.seriesId} IS NOT NULL`),
+    check(
+      "watchlist_item_one_media",
+      sql`(${table.movieId} IS NULL) <> (${table.seriesId} IS NULL)`,
+    ),
+  ],
+);
+
+export const accountDeletion = pgTable("account_deletion", {
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => user.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+  requestedAt: timestamp("requested_at", { withTimezone: true, mode: "date" })
+    .notNull()
+    .defaultNow(),
+  scheduledFor: timestamp("scheduled_for", {
+    withTimezone: true,
+    mode: "date",
+  }).notNull(),
+});
+
+export const listCollaborator = pgTable(
+  "list_collaborator",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    listId: bigint("list_id", { mode: "number" })
+      .notNull()
+      .references(() => list.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    role: text("role").notNull(),
+    status: text("status").notNull().default("pending"),
+    invitedBy: text("invited_by")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+    respondedAt: timestamp("responded_at", {
+      withTimezone: true,
+      mode: "date",
+    }),
+  },
+  (table) => [
+    uniqueIndex("uniqueListCollaborator").on(table.listId, table.userId),
+    index("listCollaboratorUser").on(table.userId),
+    check("list_collaborator_role", sql`${table.role} IN ('editor', 'viewer')`),
+    check(
+      "list_collaborator_status",
+      sql`${table.status} IN ('pending', 'accepted')`,
+    ),
+  ],
+);
+
+export const follow = pgTable(
+  "follow",
+  {
+    followerId: text("follower_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    followingId: text("following_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.followerId, table.followingId] }),
+    index("followFollowing").on(table.followingId),
+    check("follow_not_self", sql`${table.followerId} <> ${table.followingId}`),
+  ],
+);
+
+// Append-only log of social activity, read by followers' feeds
+export const activity = pgTable(
+  "activity",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    type: text("type").notNull(),
+    movieId: bigint("movie_id", { mode: "number" }).references(() => movie.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+    seriesId: bigint("series_id", { mode: "number" }).references(() => tv.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+    listId: bigint("list_id", { mode: "number" }).references(() => list.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+    rating: numeric("rating", { precision: 2, scale: 1 }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("activityUser").on(table.userId, table.id),
+    index("activityList").on(table.listId),
+    check(
+      "activity_type",
+      sql`${table.type} IN ('rating', 'review', 'list_created', 'list_item_added', 'list_liked')`,
+    ),
+  ],
+);
+
+export const notification = pgTable(
+  "notification",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    // Recipient
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    actorId: text("actor_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    type: text("type").notNull(),
+    listId: bigint("list_id", { mode: "number" }).references(() => list.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+    readAt: timestamp("read_at", { withTimezone: true, mode: "date" }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("notificationUser").on(table.userId, table.id),
+    index("notificationList").on(table.listId),
+    check(
+      "notification_type",
+      sql`${table.type} IN ('list_liked', 'list_saved', 'followed')`,
+    ),
+  ],
+);
+
+// A row mutes one notification type for a user
+export const notificationMute = pgTable(
+  "notification_mute",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    type: text("type").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.type] })],
+);
+
+// Public profile fields editable by the user (display name and avatar live on `user`)
+export const profile = pgTable("profile", {
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => user.id, {
+      onUpdate: "no action",
+      onDelete: "no action",
+    }),
+  bio: text("bio"),
+  location: text("location"),
+  links: jsonb("links").$type<string[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at", { withTimezone: true, mode: "date" })
+    .notNull()
+    .defaultNow(),
+});
+
+// Pinned "top four" favorite films, ordered by position (1-4)
+export const profileFavorite = pgTable(
+  "profile_favorite",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    position: integer("position").notNull(),
+    movieId: bigint("movie_id", { mode: "number" })
+      .notNull()
+      .references(() => movie.id, {
+        onUpdate: "no action",
+        onDelete: "no action",
+      }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.position] }),
+    uniqueIndex("uniqueProfileFavorite").on(table.userId, table.movieId),
+    check("profile_favorite_position", sql`${table.position} BETWEEN 1 AND 4`),
+  ],
+);
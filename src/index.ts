@@ -6,6 +6,7 @@ import { rateLimit } from "elysia-rate-limit";
 
 import { api } from "@/api/api-index";
 import { errorPlugin } from "@/plugins/error-plugin";
+import { startJobs } from "@/jobs";
 
 const allowedOrigins = ["https://www.frame-rate.io", "https://frame-rate.io"];
 if (process.env.NODE_ENV === "development") {
@@ -103,6 +104,8 @@ if (process.env.NODE_ENV !== "production") {
 
 app.listen({ port: 8000, hostname: "0.0.0.0" });
 
+startJobs();
+
 export type App = typeof app;
 
 console.log(`🦊 Elysia running at ${app.server?.hostname}:${app.server?.port}`);
@@ -0,0 +1,83 @@
+import { db } from "@/drizzle";
+import { processDueAccountDeletions } from "@/services/v1/account-deletion";
+import { syncSeasonEpisodes } from "@/services/v1/details";
+import { purgeTrashedLists } from "@/services/v1/lists";
+import { backfillStatsMetadata } from "@/services/v1/stats";
+import { sql } from "drizzle-orm";
+
+type Job = {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+};
+
+const jobs: Job[] = [
+  {
+    name: "account-deletion",
+    intervalMs: 60 * 60 * 1000,
+    run: processDueAccountDeletions,
+  },
+  {
+    name: "list-trash",
+    intervalMs: 60 * 60 * 1000,
+    run: purgeTrashedLists,
+  },
+  {
+    name: "tv-season-episodes",
+    intervalMs: 10 * 60 * 1000,
+    run: syncSeasonEpisodes,
+  },
+  {
+    name: "stats-metadata",
+    intervalMs: 60 * 60 * 1000,
+    run: backfillStatsMetadata,
+  },
+];
+
+/**
+ * Internal: Runs a job while holding a Postgres advisory lock named after it,
+ * so when several server instances are up only one of them runs the job at a
+ * time; the others skip that run. The lock is transaction-scoped, which also
+ * works behind a transaction-mode connection pooler.
+ */
+async function runExclusive(job: Job) {
+  await db.transaction(async (trx) => {
+    const [lock] = await trx.execute<{ acquired: boolean }>(
+      sql`SELECT pg_try_advisory_xact_lock(hashtext(${`job:${job.name}`})) AS acquired`,
+    );
+
+    if (lock?.acquired) {
+      await job.run();
+    }
+  });
+}
+
+/**
+ * Starts the in-process background jobs. Each job runs once at startup and
+ * then on its interval; a run is skipped while the previous one is still going,
+ * or while another instance is running the same job.
+ *
+ * @returns A function that stops all jobs
+ */
+export function startJobs() {
+  const timers = jobs.map((job) => {
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await runExclusive(job);
+      } catch (error) {
+        console.error(`Job "${job.name}" failed`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    void tick();
+    return setInterval(tick, job.intervalMs);
+  });
+
+  return () => timers.forEach((timer) => clearInterval(timer));
+}
@@ -0,0 +1,104 @@
+const BLOCK_SIZE = 512;
+const encoder = new TextEncoder();
+
+export type ArchiveEntry = {
+  name: string;
+  content: string | Uint8Array;
+};
+
+/**
+ * Internal: Writes an ASCII string into a header field.
+ */
+function writeString(
+  header: Uint8Array,
+  value: string,
+  offset: number,
+  length: number,
+) {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+/**
+ * Internal: Writes a NUL-terminated, zero-padded octal number into a header field.
+ */
+function writeOctal(
+  header: Uint8Array,
+  value: number,
+  offset: number,
+  length: number,
+) {
+  writeString(
+    header,
+    value.toString(8).padStart(length - 1, "0") + "\0",
+    offset,
+    length,
+  );
+}
+
+/**
+ * Internal: Builds a 512-byte ustar header for a regular file.
+ */
+function createHeader(name: string, size: number, mtime: number) {
+  if (encoder.encode(name).length > 100) {
+    throw new Error(`Archive entry name too long: ${name}`);
+  }
+
+  const header = new Uint8Array(BLOCK_SIZE);
+  writeString(header, name, 0, 100);
+  writeOctal(header, 0o644, 100, 8); // mode
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  writeString(header, "0", 156, 1); // regular file
+  writeString(header, "ustar\0", 257, 6);
+  writeString(header, "00", 263, 2);
+
+  // Checksum is computed with the checksum field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8);
+
+  return header;
+}
+
+/**
+ * Packs files into a gzip-compressed tar archive (`.tar.gz`).
+ *
+ * @param entries - Files to include, with paths relative to the archive root
+ * @param modifiedAt - Modification time recorded for every entry
+ * @returns The compressed archive bytes
+ */
+export function createTarGz(
+  entries: ArchiveEntry[],
+  modifiedAt = new Date(),
+) {
+  const mtime = Math.floor(modifiedAt.getTime() / 1000);
+  const chunks: Uint8Array[] = [];
+
+  for (const entry of entries) {
+    const content =
+      typeof entry.content === "string"
+        ? encoder.encode(entry.content)
+        : entry.content;
+
+    chunks.push(createHeader(entry.name, content.length, mtime), content);
+
+    const padding = (BLOCK_SIZE - (content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding) chunks.push(new Uint8Array(padding));
+  }
+
+  // End of archive: two empty blocks
+  chunks.push(new Uint8Array(BLOCK_SIZE * 2));
+
+  const tar = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    tar.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return Bun.gzipSync(tar);
+}
@@ -1,6 +1,6 @@
 import { db } from "@/drizzle";
-import { list } from "@/drizzle/schema";
-import { eq } from "drizzle-orm";
+import { list, listCollaborator } from "@/drizzle/schema";
+import { and, eq, isNull } from "drizzle-orm";
 import { httpError } from "./httpError";
 
 const resourceConfig = {
@@ -8,37 +8,105 @@ const resourceConfig = {
     table: list,
     idCol: list.id,
     ownerCol: list.userId,
+    deletedCol: list.deletedAt,
+    members: {
+      table: listCollaborator,
+      resourceCol: listCollaborator.listId,
+      userCol: listCollaborator.userId,
+      roleCol: listCollaborator.role,
+      statusCol: listCollaborator.status,
+    },
   },
 } as const;
 
 type ResourceKey = keyof typeof resourceConfig;
 
-type OwnerRow = { ownerId: string };
+export type Role = "viewer" | "editor" | "owner";
+
+type RoleRow = { ownerId: string; role: Role };
+
+const roleRank: Record<Role, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+/**
+ * Checks whether `role` grants at least the `required` permissions.
+ *
+ * @param role - The role held (or null for none)
+ * @param required - The minimum role needed
+ * @returns Whether access is granted
+ */
+export function hasRole(role: Role | null | undefined, required: Role) {
+  return !!role && roleRank[role] >= roleRank[required];
+}
+
+/**
+ * Resolves the role `userId` holds on a resource: "owner" for the owner,
+ * the collaborator role for accepted collaborators, otherwise null.
+ * Pending invites grant no access, and trashed resources are treated as missing.
+ *
+ * @param resource   One of the configured resource keys (e.g., "list")
+ * @param resourceId Numeric ID of the resource
+ * @param userId     User ID to check
+ * @returns `{ ownerId, role }`, or `undefined` if the resource does not exist
+ */
+export async function getRole<R extends ResourceKey>(
+  resource: R,
+  resourceId: number,
+  userId?: string,
+): Promise<{ ownerId: string; role: Role | null } | undefined> {
+  const { table, idCol, ownerCol, deletedCol, members } =
+    resourceConfig[resource];
+
+  const [row] = await db
+    .select({ ownerId: ownerCol, memberRole: members.roleCol })
+    .from(table)
+    .leftJoin(
+      members.table,
+      and(
+        eq(members.resourceCol, idCol),
+        eq(members.userCol, userId ?? ""),
+        eq(members.statusCol, "accepted"),
+      ),
+    )
+    .where(and(eq(idCol, resourceId), isNull(deletedCol)));
+
+  if (!row) return undefined;
+  if (userId && row.ownerId === userId) {
+    return { ownerId: row.ownerId, role: "owner" };
+  }
+  return { ownerId: row.ownerId, role: (row.memberRole as Role) ?? null };
+}
 
 /**
- * Authorizes that `userId` owns the given `resource` with `resourceId`.
+ * Authorizes that `userId` holds at least the `required` role on the given
+ * `resource` with `resourceId`.
  *
  * Error semantics (minimized information disclosure):
  * - 401 when `userId` is missing
- * - 404 when the resource does not exist **or** exists but is not owned by `userId`
- *   (non-owners are indistinguishable from non-existent resources)
+ * - 404 when the resource does not exist **or** the user has no role on it
+ *   (outsiders are indistinguishable from non-existent resources)
+ * - 403 when the user is a member but their role is insufficient
  *
  * Notes:
- * - We fetch by ID only, then compare owner. Non-owners get a 404.
- * - We alias the owner column to `ownerId` and return only that minimal shape.
+ * - We fetch by ID only, then resolve the role (owner or accepted collaborator).
  * - We **throw** HttpErrors; callers should `await` and let the error propagate.
  *
  * @param resource   One of the configured resource keys (e.g., "list")
  * @param resourceId Numeric ID of the resource
  * @param userId     Authenticated user's ID (string)
- * @returns `{ ownerId: string }` if authorized
- * @throws HttpError (401 | 404)
+ * @param required   Minimum role ("viewer" | "editor" | "owner")
+ * @returns `{ ownerId: string, role: Role }` if authorized
+ * @throws HttpError (401 | 403 | 404)
  */
-export async function authorizeOwner<R extends ResourceKey>(
+export async function authorizeRole<R extends ResourceKey>(
   resource: R,
   resourceId: number,
-  userId?: string,
-): Promise<OwnerRow> {
+  userId: string | undefined,
+  required: Role,
+): Promise<RoleRow> {
   if (!userId) {
     throw httpError(401, "Unauthorized");
   }
@@ -48,18 +116,16 @@ export async function authorizeOwner<R extends ResourceKey>(
     throw httpError(404, "Resource does not exist.");
   }
 
-  const { table, idCol, ownerCol } = resourceConfig[resource];
+  const row = await getRole(resource, resourceId, userId);
 
-  // Fetch by ID only — determine existence first
-  const [row] = await db
-    .select({ ownerId: ownerCol })
-    .from(table)
-    .where(eq(idCol, resourceId));
-
-  if (!row || row.ownerId !== userId) {
-    // Non-owners treated the same as non-existent resources
+  if (!row || !row.role) {
+    // Outsiders treated the same as non-existent resources
     throw httpError(404, "Resource does not exist.");
   }
 
-  return row as OwnerRow;
+  if (!hasRole(row.role, required)) {
+    throw httpError(403, "You do not have permission to do this");
+  }
+
+  return { ownerId: row.ownerId, role: row.role };
 }
@@ -0,0 +1,117 @@
+// Leading characters that make spreadsheet apps evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Parses RFC 4180 CSV text into rows of cells.
+ * Handles quoted cells (including embedded commas, quotes and newlines),
+ * CRLF line endings and a leading byte-order mark.
+ *
+ * @param text - Raw CSV text
+ * @returns Array of rows, each an array of cell strings
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Converts parsed CSV rows into objects keyed by the header row.
+ * Blank rows are skipped; missing cells become empty strings.
+ *
+ * @param rows - Rows from `parseCsv`, header first
+ * @returns Array of records keyed by header name
+ */
+export function toRecords(rows: string[][]): Record<string, string>[] {
+  const [header, ...body] = rows;
+  if (!header) return [];
+
+  return body
+    .filter((row) => row.some((cell) => cell.trim() !== ""))
+    .map((row) =>
+      Object.fromEntries(
+        header.map((key, i) => [key.trim(), (row[i] ?? "").trim()]),
+      ),
+    );
+}
+
+/**
+ * Internal: Serializes a single value as an RFC 4180 cell.
+ * Text that a spreadsheet would run as a formula is prefixed with `'`.
+ */
+function toCell(value: unknown) {
+  if (value === null || value === undefined) return "";
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes records to RFC 4180 CSV with a header row.
+ * Dates are written as ISO 8601; nested objects as JSON.
+ *
+ * @param records - Rows to serialize
+ * @param columns - Column order; also written as the header when there are no records
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(
+  records: Record<string, unknown>[],
+  columns: string[],
+): string {
+  const lines = [columns.map(toCell).join(",")];
+  for (const record of records) {
+    lines.push(columns.map((column) => toCell(record[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,143 @@
+import { db, type Transaction } from "@/drizzle";
+import { sql } from "drizzle-orm";
+import postgres from "postgres";
+
+const CHANNEL = "realtime";
+
+// Ping idle streams so proxies keep them open and dead clients are noticed
+const HEARTBEAT_MS = 25_000;
+
+// Slow clients drop their oldest undelivered events beyond this
+const MAX_QUEUED_EVENTS = 100;
+
+export type RealtimeEventName = "notification" | "list_counts" | "library";
+
+export type RealtimeEvent = {
+  topic: string;
+  event: RealtimeEventName;
+  data: Record<string, unknown>;
+};
+
+type Subscriber = (event: RealtimeEvent) => void;
+
+const subscribers = new Map<string, Set<Subscriber>>();
+
+let listening: Promise<unknown> | undefined;
+
+/** Topic for events addressed to one user (all their open tabs). */
+export const userTopic = (userId: string) => `user:${userId}`;
+
+/** Topic for events shown to everyone viewing a list. */
+export const listTopic = (listId: number) => `list:${listId}`;
+
+/**
+ * Publishes events to every server instance through Postgres NOTIFY.
+ * Inside a transaction, delivery happens on commit (and never on rollback),
+ * so publish in the same transaction as the write.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param events - Events to publish
+ */
+export async function publish(
+  trx: typeof db | Transaction,
+  events: RealtimeEvent[],
+) {
+  for (const event of events) {
+    await trx.execute(
+      sql`SELECT pg_notify(${CHANNEL}, ${JSON.stringify(event)})`,
+    );
+  }
+}
+
+/**
+ * Internal: Delivers an event received from Postgres to local subscribers.
+ */
+function dispatch(payload: string) {
+  let event: RealtimeEvent;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    console.error("[realtime] dropped malformed payload");
+    return;
+  }
+
+  for (const subscriber of subscribers.get(event.topic) ?? []) {
+    subscriber(event);
+  }
+}
+
+/**
+ * Internal: Starts listening on first use. LISTEN needs a session, which
+ * transaction-mode poolers don't provide, so a direct connection is used
+ * when `DATABASE_DIRECT_URL` is set. postgres.js re-listens after reconnects.
+ */
+function ensureListening() {
+  listening ??= postgres(
+    process.env.DATABASE_DIRECT_URL ?? process.env.DATABASE_URL!,
+    { max: 1 },
+  )
+    .listen(CHANNEL, dispatch)
+    .catch((error) => {
+      listening = undefined;
+      throw error;
+    });
+
+  return listening;
+}
+
+/**
+ * Streams events for the given topics until `signal` aborts.
+ * Yields `undefined` as a heartbeat when no event arrived for a while.
+ *
+ * @param topics - Topics to receive (see `userTopic` / `listTopic`)
+ * @param signal - Aborted when the client disconnects
+ */
+export async function* subscribe(
+  topics: string[],
+  signal: AbortSignal,
+): AsyncGenerator<RealtimeEvent | undefined> {
+  await ensureListening();
+
+  const queue: RealtimeEvent[] = [];
+  let wake: (() => void) | undefined;
+
+  const subscriber: Subscriber = (event) => {
+    queue.push(event);
+    if (queue.length > MAX_QUEUED_EVENTS) queue.shift();
+    wake?.();
+  };
+  const onAbort = () => wake?.();
+
+  for (const topic of topics) {
+    if (!subscribers.has(topic)) subscribers.set(topic, new Set());
+    subscribers.get(topic)!.add(subscriber);
+  }
+  signal.addEventListener("abort", onAbort);
+
+  try {
+    while (!signal.aborted) {
+      if (queue.length === 0) {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+          timer = setTimeout(resolve, HEARTBEAT_MS);
+        });
+        clearTimeout(timer);
+        wake = undefined;
+
+        if (queue.length === 0 && !signal.aborted) yield undefined;
+      }
+
+      while (queue.length > 0 && !signal.aborted) {
+        yield queue.shift();
+      }
+    }
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+    for (const topic of topics) {
+      const set = subscribers.get(topic);
+      set?.delete(subscriber);
+      if (set?.size === 0) subscribers.delete(topic);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+// Control characters except tab (\x09) and newline (\x0A), plus zero-width/bidi marks
+const CONTROL_CHARS =
+  /[\x00-\x08\x0B-\x1F\x7F\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+// Known HTML element names; anything else in angle brackets is ordinary text
+// (e.g. "a<b and c>d")
+const HTML_TAG_NAMES = `
+  a abbr address area article aside audio b base bdi bdo blockquote body br
+  button canvas caption center cite code col colgroup data datalist dd del
+  details dfn dialog div dl dt em embed fieldset figcaption figure font
+  footer form frame frameset h1 h2 h3 h4 h5 h6 head header hr html i iframe
+  img input ins kbd label legend li link main map mark marquee math menu
+  meta meter nav noscript object ol optgroup option output p param picture
+  pre progress q s samp script section select slot small source span strike
+  strong style sub summary sup svg table tbody td template textarea tfoot th
+  thead time title tr track u ul var video wbr
+`
+  .trim()
+  .split(/\s+/);
+// A known tag that is bare (`<b>`, `</b>`, `<br/>`), or any tag carrying
+// attributes (`<img src=x onerror=...>`, `<my-el onclick=...>`); `<b and c>`
+// has no attribute value and is kept
+const HTML_TAGS = new RegExp(
+  `<\\/?(?:(?:${HTML_TAG_NAMES.join("|")})\\s*\\/?>|[a-z][\\w:-]*[\\s/][^<>]*=[^<>]*>)`,
+  "gi",
+);
+const HTML_COMMENTS = /<!--[\s\S]*?-->/g;
+// Markdown link destinations: inline (`](target)`), reference definitions
+// (`[label]: target`) and autolinks (`<scheme:target>`)
+const INLINE_LINK_TARGETS =
+  /(\]\(\s*)(<[^<>\n]*>|[^\s()<>]+(?:\([^\s()]*\)[^\s()<>]*)*)/g;
+const REFERENCE_LINK_TARGETS = /^( {0,3}\[[^\]\n]+\]:[ \t]*)(<[^<>\n]*>|\S+)/gm;
+const AUTOLINKS = /<[a-z][a-z\d+.-]{1,31}:[^\s<>]*>/gi;
+const UNSAFE_SCHEMES = /^(?:javascript|vbscript|data|file):/i;
+// Entities a browser decodes in a link before reading its scheme
+const NAMED_ENTITIES: Record<string, string> = {
+  colon: ":",
+  tab: "\t",
+  newline: "\n",
+  lpar: "(",
+  rpar: ")",
+  sol: "/",
+  amp: "&",
+};
+const CHARACTER_REFERENCES = /&(?:#(\d+)|#x([\da-f]+)|([a-z]+));?/gi;
+
+/**
+ * Internal: Whether a link destination would run script once a renderer
+ * decodes its character references and drops whitespace from the scheme.
+ */
+function isUnsafeLink(target: string) {
+  const decoded = target
+    .replace(/^<|>$/g, "")
+    .replace(CHARACTER_REFERENCES, (entity, dec, hex, name) => {
+      if (dec || hex) {
+        const code = parseInt(dec ?? hex, dec ? 10 : 16);
+        return code <= 0x10ffff ? String.fromCodePoint(code) : "";
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/[\x00-\x20]/g, "");
+
+  return UNSAFE_SCHEMES.test(decoded);
+}
+
+/**
+ * Internal: Strips markup and neutralizes script-capable link targets.
+ * Repeats until nothing changes, so removing one tag cannot assemble
+ * another (e.g. `<scr<b>ipt>`).
+ */
+function stripMarkup(text: string) {
+  let previous: string;
+  do {
+    previous = text;
+    text = text
+      .replace(HTML_COMMENTS, "")
+      .replace(HTML_TAGS, "")
+      .replace(INLINE_LINK_TARGETS, (match, prefix: string, target: string) =>
+        isUnsafeLink(target) ? `${prefix}#` : match,
+      )
+      .replace(
+        REFERENCE_LINK_TARGETS,
+        (match, prefix: string, target: string) =>
+          isUnsafeLink(target) ? `${prefix}#` : match,
+      )
+      .replace(AUTOLINKS, (link) => (isUnsafeLink(link) ? "" : link));
+  } while (text !== previous);
+
+  return text;
+}
+
+/**
+ * Normalizes free-form user text (reviews, notes, descriptions) so it is
+ * safe to store and render as markdown.
+ *
+ * - Unifies line endings and strips control / zero-width characters
+ * - Removes trailing whitespace on each line and collapses runs of blank lines
+ * - Strips HTML tags and comments, and neutralizes `javascript:`-style link
+ *   targets (inline, reference-style and autolinks, even when entity-encoded)
+ *
+ * @param raw - Untrusted user input
+ * @returns The normalized text (may be an empty string)
+ */
+export function sanitizeText(raw: string): string {
+  return stripMarkup(
+    raw
+      .normalize("NFC")
+      .replace(/\r\n?/g, "\n")
+      .replace(/\t/g, "  ")
+      .replace(CONTROL_CHARS, ""),
+  )
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// returns null for success
+export function validateTextLength(
+  text: string,
+  label: string,
+  maxLength: number,
+) {
+  // Count code points so emoji are not penalized twice
+  const length = [...text].length;
+  if (length > maxLength)
+    return `${label} must be ${maxLength} characters or fewer`;
+
+  return null;
+}
+
+/**
+ * Route-level cap on raw text, before sanitizing. Markup and UTF-16
+ * surrogate pairs count toward it, so it is kept well above the service
+ * limit; `validateTextLength` enforces the real limit after sanitizing.
+ *
+ * @param maxLength - The service's character limit
+ */
+export function rawTextMaxLength(maxLength: number) {
+  return maxLength * 4;
+}
@@ -2,7 +2,7 @@
 
 import { db } from "@/drizzle";
 import { listSlugHistory, list, movie, tv } from "@/drizzle/schema";
-import { and, eq, or } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import slugify from "slugify";
 import { HttpError } from "@/lib/httpError";
 
@@ -42,6 +42,8 @@ export async function generateSlug(
 
 /**
  * Checks if a slug exists for any content type.
+ * List slugs are unique per user, and include slugs a list used before
+ * being renamed (so old links keep resolving to that list).
  * @param uniqueSlug - The slug name to check.
  * @param contentType - The content type the slug will belong to.
  * @param userId - The user to check for slug uniqueness.
@@ -52,34 +54,41 @@ async function slugExists(
   contentType: "movie" | "tv" | "list",
   userId: string,
 ) {
-  const tableMap = { movie, tv, list };
-
-  const table = tableMap[contentType];
-  if (!table) throw new HttpError(400, "Invalid content type");
-
-  const baseQuery = db
-    .select()
-    .from(table)
-    .innerJoin(listSlugHistory, eq(listSlugHistory.oldSlug, uniqueSlug));
-
   if (contentType === "list") {
     if (!userId) {
       throw new HttpError(400, "Please provide a valid user ID.");
     }
 
-    const result = await baseQuery.where(
-      and(
-        or(eq(table.slug, uniqueSlug), eq(listSlugHistory.oldSlug, uniqueSlug)),
-        eq(list.userId, userId),
-      ),
-    );
+    const [current] = await db
+      .select({ id: list.id })
+      .from(list)
+      .where(and(eq(list.userId, userId), eq(list.slug, uniqueSlug)))
+      .limit(1);
+
+    if (current) return true;
 
-    return result.length > 0;
-  } else {
-    const result = await baseQuery.where(
-      or(eq(table.slug, uniqueSlug), eq(listSlugHistory.oldSlug, uniqueSlug)),
-    );
+    const [previous] = await db
+      .select({ id: listSlugHistory.id })
+      .from(listSlugHistory)
+      .innerJoin(list, eq(listSlugHistory.listId, list.id))
+      .where(
+        and(eq(list.userId, userId), eq(listSlugHistory.oldSlug, uniqueSlug)),
+      )
+      .limit(1);
 
-    return result.length > 0;
+    return !!previous;
   }
+
+  const tableMap = { movie, tv };
+
+  const table = tableMap[contentType];
+  if (!table) throw new HttpError(400, "Invalid content type");
+
+  const [result] = await db
+    .select({ id: table.id })
+    .from(table)
+    .where(eq(table.slug, uniqueSlug))
+    .limit(1);
+
+  return !!result;
 }
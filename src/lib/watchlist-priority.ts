@@ -0,0 +1,20 @@
+export type WatchlistPriority = "low" | "normal" | "high";
+
+// Stored as integers so the watchlist can be ordered by priority in SQL
+export const priorityValues: Record<WatchlistPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+};
+
+/**
+ * Maps a stored priority back to its public name.
+ *
+ * @param value - Stored integer priority
+ * @returns "low" | "normal" | "high"
+ */
+export function toPriorityName(value: number): WatchlistPriority {
+  if (value >= priorityValues.high) return "high";
+  if (value <= priorityValues.low) return "low";
+  return "normal";
+}
@@ -176,6 +176,17 @@ export const movieDetailsBaseSchema = mediaBaseSchema.extend({
   video: z.boolean(),
 });
 
+export const seasonEpisodesSchema = z.object({
+  episodes: z.array(
+    z.object({
+      air_date: z.string().nullable(),
+      episode_number: z.number(),
+      name: z.string(),
+      season_number: z.number(),
+    }),
+  ),
+});
+
 export const tvDetailsSchema = tvDetailsBaseSchema.extend({
   media_type: z.literal("tv"),
 });
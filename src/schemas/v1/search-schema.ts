@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+export const movieSearchResultSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  original_title: z.string(),
+  release_date: z.string().nullable().optional(),
+  poster_path: z.string().nullable(),
+  backdrop_path: z.string().nullable(),
+  popularity: z.number(),
+});
+
+export const movieSearchResponseSchema = z.object({
+  page: z.number(),
+  results: z.array(movieSearchResultSchema),
+  total_pages: z.number(),
+  total_results: z.number(),
+});
+
+export type MovieSearchResult = z.infer<typeof movieSearchResultSchema>;
@@ -0,0 +1,247 @@
+import { db } from "@/drizzle";
+import {
+  accountDeletion,
+  activity,
+  diaryEntry,
+  follow,
+  list,
+  listCollaborator,
+  listItem,
+  listLikes,
+  listSaves,
+  listView,
+  movieReview,
+  notification,
+  notificationMute,
+  profile,
+  profileFavorite,
+  subscription,
+  tvEpisodeWatch,
+  tvReview,
+  tvSeasonReview,
+  user,
+  watchlistItem,
+} from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { purgeListRows } from "@/services/v1/lists";
+import { eq, inArray, lte, or, sql } from "drizzle-orm";
+
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+// Prefix of the placeholder identity for anonymized views (satisfies `at_least_one_identifier`)
+const ANONYMIZED_VIEWER_PREFIX = "anonymized:";
+
+/**
+ * Retrieves the user's pending account deletion, if any.
+ *
+ * @param userId - The account owner
+ * @returns `{ requestedAt, scheduledFor } | undefined`
+ */
+export async function getAccountDeletion(userId: string) {
+  const [result] = await db
+    .select({
+      requestedAt: accountDeletion.requestedAt,
+      scheduledFor: accountDeletion.scheduledFor,
+    })
+    .from(accountDeletion)
+    .where(eq(accountDeletion.userId, userId));
+
+  return result;
+}
+
+/**
+ * Schedules the user's account for deletion once the grace period ends
+ * (idempotent: an existing request keeps its original schedule).
+ *
+ * @param userId - The account owner
+ * @returns `{ created: boolean, deletion: { requestedAt, scheduledFor } }`
+ */
+export async function requestAccountDeletion(userId: string) {
+  const scheduledFor = new Date(
+    Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const [inserted] = await db
+    .insert(accountDeletion)
+    .values({ userId, scheduledFor })
+    .onConflictDoNothing({ target: accountDeletion.userId })
+    .returning({
+      requestedAt: accountDeletion.requestedAt,
+      scheduledFor: accountDeletion.scheduledFor,
+    });
+
+  if (inserted) return { created: true, deletion: inserted };
+
+  const existing = await getAccountDeletion(userId);
+  if (!existing) {
+    throw new HttpError(500, "Failed to schedule account deletion");
+  }
+  return { created: false, deletion: existing };
+}
+
+/**
+ * Cancels a pending account deletion.
+ *
+ * @param userId - The account owner
+ * @returns Whether a pending deletion was cancelled
+ */
+export async function cancelAccountDeletion(userId: string) {
+  const deleted = await db
+    .delete(accountDeletion)
+    .where(eq(accountDeletion.userId, userId))
+    .returning({ userId: accountDeletion.userId });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Permanently removes a user and everything they own in one transaction.
+ *
+ * Behavior:
+ * - Likes and saves on other users' lists are removed and those lists'
+ *   `likeCount` / `saveCount` are decremented accordingly
+ * - Views of other users' lists are anonymized so their view counts stay intact
+ * - Items the user added to other users' lists are removed, clearing any
+ *   cover that pointed at them
+ * - The user's own lists are deleted with their items, likes, saves, views
+ *   and slug history
+ * - Follows, feed activity and notifications (received or caused) are deleted
+ * - Reviews, diary, watchlist, TV progress and the profile are deleted, then the user row
+ *   (sessions and linked accounts cascade)
+ *
+ * @param userId - The user to purge
+ * @returns Whether the user existed
+ */
+export async function purgeUserData(userId: string) {
+  return db.transaction(async (trx) => {
+    const [existing] = await trx
+      .select({ id: user.id })
+      .from(user)
+      .where(eq(user.id, userId))
+      .for("update");
+
+    if (!existing) return false;
+
+    const ownLists = await trx
+      .select({ id: list.id })
+      .from(list)
+      .where(eq(list.userId, userId));
+    const ownListIds = ownLists.map(({ id }) => id);
+
+    // Decrement counters on other users' lists before removing the rows
+    const likes = await trx
+      .delete(listLikes)
+      .where(eq(listLikes.userId, userId))
+      .returning({ listId: listLikes.listId });
+    const likedListIds = likes
+      .map(({ listId }) => listId)
+      .filter((id) => !ownListIds.includes(id));
+
+    if (likedListIds.length > 0) {
+      await trx
+        .update(list)
+        .set({ likeCount: sql`GREATEST(${list.likeCount} - 1, 0)` })
+        .where(inArray(list.id, likedListIds));
+    }
+
+    const saves = await trx
+      .delete(listSaves)
+      .where(eq(listSaves.userId, userId))
+      .returning({ listId: listSaves.listId });
+    const savedListIds = saves
+      .map(({ listId }) => listId)
+      .filter((id) => !ownListIds.includes(id));
+
+    if (savedListIds.length > 0) {
+      await trx
+        .update(list)
+        .set({ saveCount: sql`GREATEST(${list.saveCount} - 1, 0)` })
+        .where(inArray(list.id, savedListIds));
+    }
+
+    // A random key per account keeps the user's views counting as one
+    // distinct viewer without merging them with other deleted accounts
+    await trx
+      .update(listView)
+      .set({
+        userId: null,
+        ipAddress: `${ANONYMIZED_VIEWER_PREFIX}${crypto.randomUUID()}`,
+      })
+      .where(eq(listView.userId, userId));
+
+    await purgeListRows(trx, ownListIds);
+    await trx.delete(activity).where(eq(activity.userId, userId));
+    await trx
+      .delete(follow)
+      .where(or(eq(follow.followerId, userId), eq(follow.followingId, userId)));
+    await trx
+      .delete(notification)
+      .where(
+        or(eq(notification.userId, userId), eq(notification.actorId, userId)),
+      );
+    await trx
+      .delete(notificationMute)
+      .where(eq(notificationMute.userId, userId));
+    await trx
+      .delete(listCollaborator)
+      .where(
+        or(
+          eq(listCollaborator.userId, userId),
+          eq(listCollaborator.invitedBy, userId),
+        ),
+      );
+    await trx
+      .update(list)
+      .set({ coverItemId: null })
+      .where(
+        inArray(
+          list.coverItemId,
+          trx
+            .select({ id: listItem.id })
+            .from(listItem)
+            .where(eq(listItem.userId, userId)),
+        ),
+      );
+    await trx.delete(listItem).where(eq(listItem.userId, userId));
+
+    await trx.delete(diaryEntry).where(eq(diaryEntry.userId, userId));
+    await trx.delete(watchlistItem).where(eq(watchlistItem.userId, userId));
+    await trx.delete(tvEpisodeWatch).where(eq(tvEpisodeWatch.userId, userId));
+    await trx.delete(tvSeasonReview).where(eq(tvSeasonReview.userId, userId));
+    await trx.delete(movieReview).where(eq(movieReview.userId, userId));
+    await trx.delete(tvReview).where(eq(tvReview.userId, userId));
+    await trx.delete(subscription).where(eq(subscription.userId, userId));
+    await trx.delete(profileFavorite).where(eq(profileFavorite.userId, userId));
+    await trx.delete(profile).where(eq(profile.userId, userId));
+    await trx.delete(accountDeletion).where(eq(accountDeletion.userId, userId));
+
+    await trx.delete(user).where(eq(user.id, userId));
+
+    return true;
+  });
+}
+
+/**
+ * Purges every account whose grace period has ended.
+ * Failures are logged per user so one bad account does not block the rest.
+ *
+ * @param now - Reference time (defaults to now)
+ * @returns Number of accounts purged
+ */
+export async function processDueAccountDeletions(now = new Date()) {
+  const due = await db
+    .select({ userId: accountDeletion.userId })
+    .from(accountDeletion)
+    .where(lte(accountDeletion.scheduledFor, now));
+
+  let purged = 0;
+  for (const { userId } of due) {
+    try {
+      if (await purgeUserData(userId)) purged++;
+    } catch (error) {
+      console.error("Failed to purge account", { userId, error });
+    }
+  }
+
+  return purged;
+}
@@ -1,7 +1,18 @@
 import { db } from "@/drizzle";
-import { list, listLikes, listSaves } from "@/drizzle/schema";
+import { list, listItem, listLikes, listSaves } from "@/drizzle/schema";
+import { getRole } from "@/lib/authorization";
+import { HttpError } from "@/lib/httpError";
+import { generateSlug } from "@/lib/slug";
 import { getReviewTables } from "@/lib/utils";
-import { and, eq, sql } from "drizzle-orm";
+import { recordActivity } from "@/services/v1/activity";
+import { ensureDiaryEntry } from "@/services/v1/diary";
+import { listItemOrder } from "@/services/v1/list-order";
+import { notify, retractNotification } from "@/services/v1/notifications";
+import {
+  publishLibraryChange,
+  publishListCounts,
+} from "@/services/v1/realtime";
+import { and, eq, isNull, sql } from "drizzle-orm";
 
 type ReviewData = {
   userId: string;
@@ -23,6 +34,9 @@ type ListAction<T> = {
  * If a review exists, it will be updated. If no review exists,
  * the route layer will return a 404.
  *
+ * Marking a title as watched also logs a first diary entry (dated today)
+ * when the user has never logged it. Unmarking leaves the diary untouched.
+ *
  * @param param - Object containing the user ID, media type, media ID,
  *                 the review field to update, and the new value to set.
  * @returns The updated review rows
@@ -37,11 +51,23 @@ export async function updateReview({
   const tablesMap = getReviewTables();
   const { table, idCol } = tablesMap[mediaType];
 
-  const result = await db
-    .update(table)
-    .set({ [field]: value, updatedAt: new Date() })
-    .where(and(eq(table.userId, userId), eq(idCol, mediaId)))
-    .returning();
+  const result = await db.transaction(async (trx) => {
+    const updated = await trx
+      .update(table)
+      .set({ [field]: value, updatedAt: new Date() })
+      .where(and(eq(table.userId, userId), eq(idCol, mediaId)))
+      .returning();
+
+    if (updated.length > 0 && field === "watched" && value) {
+      await ensureDiaryEntry(trx, userId, mediaType, mediaId);
+    }
+
+    if (updated.length > 0) {
+      await publishLibraryChange(trx, userId, [{ mediaType, mediaId }]);
+    }
+
+    return updated;
+  });
 
   return result;
 }
@@ -50,7 +76,9 @@ export async function updateReview({
  * Inserts a row representing a like or save action on a list.
  *
  * - If the action already exists the current counts are returned with no changes.
- * - If the action is new, the row is inserted and the list count is incremented.
+ * - If the action is new, the row is inserted and the list count is incremented
+ *   (new likes are recorded as feed activity, the list owner is notified and
+ *   the new counts are pushed to the list's viewers).
  *
  * @param listAction - An object containing the user conducting the action and the action type.
  * @returns An object containing the updated like/save count for the list.
@@ -76,6 +104,20 @@ export async function addListAction<T extends "like" | "save">(
   const { actionTable, actionCol, actionColName } = tablesMap[field];
 
   const result = await db.transaction(async (trx) => {
+    // Private lists can only be liked/saved by their members
+    const [target] = await trx
+      .select({ visibility: list.visibility, ownerId: list.userId })
+      .from(list)
+      .where(and(eq(list.id, listId), isNull(list.deletedAt)));
+
+    if (
+      !target ||
+      (target.visibility === "private" &&
+        !(await getRole("list", listId, userId))?.role)
+    ) {
+      throw new HttpError(404, "List not found");
+    }
+
     const inserted = await trx
       .insert(actionTable)
       .values({ userId, listId })
@@ -94,12 +136,25 @@ export async function addListAction<T extends "like" | "save">(
     }
 
     // Fresh insert
+    if (field === "like") {
+      await recordActivity(trx, [{ userId, type: "list_liked", listId }]);
+    }
+
+    await notify(trx, {
+      userId: target.ownerId,
+      actorId: userId,
+      type: field === "like" ? "list_liked" : "list_saved",
+      listId,
+    });
+
     const [updated] = await trx
       .update(list)
       .set({ [actionColName]: sql`${actionCol} + 1` })
       .where(eq(list.id, listId))
       .returning({ likeCount: list.likeCount, saveCount: list.saveCount });
 
+    if (updated) await publishListCounts(trx, listId, updated);
+
     return updated;
   });
 
@@ -113,7 +168,9 @@ export async function addListAction<T extends "like" | "save">(
  * Deletes a row representing a like or save action on a list.
  *
  * - If the action does not exist the current counts are returned unchanged.
- * - If the action exists, the row is removed and the list count is decremented.
+ * - If the action exists, the row is removed, the list count is decremented
+ *   (and pushed to the list's viewers) and the owner's notification about it
+ *   is withdrawn.
  *
  * @param listAction - An object containing the user conducting the action and the action type.
  * @returns An object containing the updated like/save count for the list.
@@ -154,6 +211,12 @@ export async function deleteListAction<T extends "like" | "save">(
       return current;
     }
 
+    await retractNotification(trx, {
+      actorId: userId,
+      type: field === "like" ? "list_liked" : "list_saved",
+      listId,
+    });
+
     // Ensure we don't attempt to decrement below zero
     const [updated] = await trx
       .update(list)
@@ -163,6 +226,8 @@ export async function deleteListAction<T extends "like" | "save">(
       .where(eq(list.id, listId))
       .returning({ likeCount: list.likeCount, saveCount: list.saveCount });
 
+    if (updated) await publishListCounts(trx, listId, updated);
+
     return updated;
   });
 
@@ -171,3 +236,114 @@ export async function deleteListAction<T extends "like" | "save">(
   if (field === "like") return { likeCount: result.likeCount };
   return { saveCount: result.saveCount };
 }
+
+/**
+ * Forks a list: copies its items (in order), description and ranked mode
+ * into a new list owned by `userId`, keeping a reference to the source.
+ *
+ * - Only public lists can be forked, except by the source's own members.
+ * - The fork keeps the source's visibility, so forking a private list does
+ *   not publish it.
+ * - The source's `forkCount` is incremented.
+ * - The copied items are recorded as added by the forking user, so item
+ *   notes (written by the source's members) are not copied.
+ *
+ * @param userId - The user forking the list
+ * @param listId - The source list
+ * @param name - Optional name for the fork (defaults to the source's name)
+ * @returns The new list with a stable `type: "list"`
+ * @throws HttpError 404 if the list does not exist or is not visible to the user
+ */
+export async function forkList(userId: string, listId: number, name?: string) {
+  const [source] = await db
+    .select()
+    .from(list)
+    .where(and(eq(list.id, listId), isNull(list.deletedAt)));
+
+  if (
+    !source ||
+    (source.visibility !== "public" &&
+      !(await getRole("list", listId, userId))?.role)
+  ) {
+    throw new HttpError(404, "List not found");
+  }
+
+  const listName = name ?? source.name;
+  const slug = await generateSlug(listName, "list", userId);
+
+  const result = await db.transaction(async (trx) => {
+    const [fork] = await trx
+      .insert(list)
+      .values({
+        userId,
+        name: listName,
+        slug,
+        description: source.description,
+        isRanked: source.isRanked,
+        visibility: source.visibility,
+        forkedFromId: source.id,
+      })
+      .returning();
+
+    if (!fork) {
+      throw new HttpError(500, "Failed to fork the list");
+    }
+
+    await recordActivity(trx, [
+      { userId, type: "list_created", listId: fork.id },
+    ]);
+
+    const sourceItems = await trx
+      .select()
+      .from(listItem)
+      .where(eq(listItem.listId, source.id))
+      .orderBy(...listItemOrder);
+
+    const copies =
+      sourceItems.length > 0
+        ? await trx
+            .insert(listItem)
+            .values(
+              sourceItems.map((item) => ({
+                userId,
+                listId: fork.id,
+                movieId: item.movieId,
+                seriesId: item.seriesId,
+                mediaType: item.mediaType,
+                position: item.position,
+              })),
+            )
+            .returning({
+              id: listItem.id,
+              movieId: listItem.movieId,
+              seriesId: listItem.seriesId,
+            })
+        : [];
+
+    // Keep the cover pointing at the copy of the same media
+    const cover = sourceItems.find((item) => item.id === source.coverItemId);
+    const coverItemId = cover
+      ? (copies.find(
+          (copy) =>
+            copy.movieId === cover.movieId && copy.seriesId === cover.seriesId,
+        )?.id ?? null)
+      : null;
+
+    const [updatedFork] = coverItemId
+      ? await trx
+          .update(list)
+          .set({ coverItemId })
+          .where(eq(list.id, fork.id))
+          .returning()
+      : [fork];
+
+    await trx
+      .update(list)
+      .set({ forkCount: sql`${list.forkCount} + 1` })
+      .where(eq(list.id, source.id));
+
+    return updatedFork!;
+  });
+
+  return { type: "list" as const, ...result };
+}
@@ -0,0 +1,125 @@
+import { db, type Transaction } from "@/drizzle";
+import { activity, follow, list, movie, tv, user } from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { desc, eq, inArray, sql } from "drizzle-orm";
+
+export type ActivityType =
+  "rating" | "review" | "list_created" | "list_item_added" | "list_liked";
+
+type FeedPage = {
+  cursor?: string;
+  limit: number;
+};
+
+/**
+ * Records social activity shown in followers' feeds. Call inside the
+ * transaction that performs the action so both commit together.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param entries - Activity rows (`userId`, `type` and the related media/list)
+ */
+export async function recordActivity(
+  trx: typeof db | Transaction,
+  entries: (typeof activity.$inferInsert & { type: ActivityType })[],
+) {
+  if (entries.length === 0) return;
+  await trx.insert(activity).values(entries);
+}
+
+/**
+ * Internal: Decodes a feed cursor (the last activity ID of the previous page).
+ */
+function decodeCursor(cursor: string) {
+  const id = Number(cursor);
+
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    throw new HttpError(400, "Invalid cursor");
+  }
+
+  return id;
+}
+
+/**
+ * Retrieves a page of activity from the users `userId` follows, newest first.
+ *
+ * Activity IDs increase with time, so pagination is keyset-based on `id`.
+ * A `LATERAL` subquery reads at most one page of each followed user's
+ * newest activity below the cursor from the `(user_id, id)` index, and the
+ * page is merged from those, so a read never scans anyone's full history,
+ * however deep the reader scrolls. List activity is only shown for public
+ * lists.
+ *
+ * @param userId - The reader
+ * @param page - `{ cursor?, limit }` where `cursor` is the previous page's `nextCursor`
+ * @returns `{ items, nextCursor }` (`nextCursor` is null on the last page)
+ * @throws HttpError 400 if the cursor is invalid
+ */
+export async function getFeed(userId: string, { cursor, limit }: FeedPage) {
+  const before = cursor ? decodeCursor(cursor) : undefined;
+
+  const recent = await db.execute<{ id: number }>(sql`
+    SELECT recent.id
+    FROM ${follow}
+    CROSS JOIN LATERAL (
+      SELECT ${activity.id}::float8 AS id
+      FROM ${activity}
+      LEFT JOIN ${list} ON ${list.id} = ${activity.listId}
+      WHERE ${activity.userId} = ${follow.followingId}
+        AND (
+          ${activity.listId} IS NULL
+          OR (${list.visibility} = 'public' AND ${list.deletedAt} IS NULL)
+        )
+        ${before ? sql`AND ${activity.id} < ${before}` : sql``}
+      ORDER BY ${activity.id} DESC
+      LIMIT ${limit + 1}
+    ) AS recent
+    WHERE ${follow.followerId} = ${userId}
+    ORDER BY recent.id DESC
+    LIMIT ${limit + 1}
+  `);
+
+  const hasMore = recent.length > limit;
+  const ids = recent.slice(0, limit).map((row) => row.id);
+
+  const items =
+    ids.length > 0
+      ? await db
+          .select({
+            id: activity.id,
+            type: sql<ActivityType>`${activity.type}`,
+            username: user.username,
+            mediaType: sql<"movie" | "tv" | null>`CASE
+                WHEN ${activity.movieId} IS NOT NULL THEN 'movie'
+                WHEN ${activity.seriesId} IS NOT NULL THEN 'tv'
+              END`,
+            mediaId: sql<
+              number | null
+            >`COALESCE(${activity.movieId}, ${activity.seriesId})`.mapWith(
+              Number,
+            ),
+            title: sql<string | null>`COALESCE(${movie.title}, ${tv.title})`,
+            posterPath: sql<
+              string | null
+            >`COALESCE(${movie.posterPath}, ${tv.posterPath})`,
+            rating: activity.rating,
+            listId: activity.listId,
+            listName: list.name,
+            listSlug: list.slug,
+            createdAt: activity.createdAt,
+          })
+          .from(activity)
+          .innerJoin(user, eq(user.id, activity.userId))
+          .leftJoin(movie, eq(movie.id, activity.movieId))
+          .leftJoin(tv, eq(tv.id, activity.seriesId))
+          .leftJoin(list, eq(list.id, activity.listId))
+          .where(inArray(activity.id, ids))
+          .orderBy(desc(activity.id))
+      : [];
+
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: hasMore && last ? String(last.id) : null,
+  };
+}
@@ -1,16 +1,42 @@
-import type { MovieDetails, TVDetails } from "@/schemas/v1/details-schema";
+import type {
+  CombinedMediaDetails,
+  MovieDetails,
+  TVDetails,
+} from "@/schemas/v1/details-schema";
 import type { MovieDetailsType, TVDetailsType } from "@/types/details";
 import { ZodError } from "zod";
 import { HttpError } from "@/lib/httpError";
 
-import { combinedMediaDetailsSchema } from "@/schemas/v1/details-schema";
+import {
+  combinedMediaDetailsSchema,
+  seasonEpisodesSchema,
+} from "@/schemas/v1/details-schema";
 import { objectToCamel } from "ts-case-convert";
 import { formatNames, getTables, renameKeys } from "@/lib/utils";
 import { db } from "@/drizzle";
-import { eq } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
+import { movie, tv } from "@/drizzle/schema";
+import type { TvEpisodeSummary } from "@/types/tv";
 
 const API_TOKEN = process.env.API_TOKEN as string;
 
+const TMDB_REQUEST_OPTIONS = {
+  method: "GET",
+  headers: {
+    accept: "application/json",
+    Authorization: `Bearer ${API_TOKEN}`,
+  },
+};
+
+// TMDB accepts up to 20 `append_to_response` items per request
+const TMDB_MAX_APPENDS = 20;
+
+// Unchanged metadata only re-stamps its refresh time this often
+const METADATA_TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+// Series whose season episodes are fetched per job run
+const SEASON_EPISODES_BATCH = 20;
+
 type TMDBError = {
   success: boolean;
   status_code: number;
@@ -25,6 +51,8 @@ type TMDBError = {
  * - Calls TMDB /movie/:id or /tv/:id with credits
  * - Validates the response with Zod
  * - Stores the media locally if not already present
+ * - Refreshes stored TV season/episode metadata
+ * - Refreshes stored genres, runtime and credits (used for user stats)
  * - Returns a details object
  *
  * @param mediaType - Either "movie" or "tv"
@@ -38,16 +66,8 @@ export async function fetchDetails(mediaType: "movie" | "tv", id: number) {
 
   const url = `https://api.themoviedb.org/3/${mediaType}/${id}?append_to_response=credits&language=en-US`;
 
-  const options = {
-    method: "GET",
-    headers: {
-      accept: "application/json",
-      Authorization: `Bearer ${API_TOKEN}`,
-    },
-  };
-
   try {
-    const response = await fetch(url, options);
+    const response = await fetch(url, TMDB_REQUEST_OPTIONS);
 
     if (!response.ok) {
       let errorMessage = `TMDB API Error: ${response.status} ${response.statusText}`;
@@ -115,6 +135,14 @@ export async function fetchDetails(mediaType: "movie" | "tv", id: number) {
       storedMedia = await addMediaToDB(mediaToAdd, mediaType);
     }
 
+    // Keep local episode metadata fresh for progress tracking
+    if (validatedData.media_type === "tv") {
+      await updateTvMetadata(id, validatedData);
+    }
+
+    // Keep genres, runtime and credits local so stats need no TMDB calls
+    await updateStatsMetadata(id, validatedData);
+
     // Return type-specific object
     if (validatedData.media_type === "movie") {
       const movieData: MovieDetails = validatedData;
@@ -220,3 +248,311 @@ export async function addMediaToDB(
 
   return result;
 }
+
+type TmdbEpisode = Pick<
+  NonNullable<TVDetails["last_episode_to_air"]>,
+  "season_number" | "episode_number" | "name" | "air_date"
+>;
+
+/**
+ * Internal: Reduces a TMDB episode to the fields stored locally.
+ */
+function toEpisodeSummary(episode: TmdbEpisode): TvEpisodeSummary {
+  return {
+    seasonNumber: episode.season_number,
+    episodeNumber: episode.episode_number,
+    name: episode.name,
+    airDate: episode.air_date || null,
+  };
+}
+
+/**
+ * Internal: Whether any stored field differs from its fresh value.
+ * JSON columns are compared structurally (key order is not preserved by JSONB).
+ */
+function hasChanges<T extends object>(
+  stored: { [K in keyof T]: unknown },
+  values: T,
+) {
+  return (Object.keys(values) as (keyof T)[]).some(
+    (key) => !Bun.deepEquals(stored[key], values[key]),
+  );
+}
+
+/**
+ * Internal: Whether an unchanged row's refresh time should be re-stamped.
+ */
+function needsTouch(metadataUpdatedAt: Date | null) {
+  return (
+    !metadataUpdatedAt ||
+    Date.now() - metadataUpdatedAt.getTime() > METADATA_TOUCH_INTERVAL_MS
+  );
+}
+
+/**
+ * Internal: Fetches episode names and air dates for seasons of a series,
+ * appending up to `TMDB_MAX_APPENDS` seasons to each TMDB request.
+ * Seasons whose request fails are left out (and retried later); seasons
+ * TMDB returns no episode list for get an empty one.
+ */
+async function fetchSeasonEpisodes(id: number, seasonNumbers: number[]) {
+  const episodes = new Map<number, TvEpisodeSummary[]>();
+
+  for (let i = 0; i < seasonNumbers.length; i += TMDB_MAX_APPENDS) {
+    const batch = seasonNumbers.slice(i, i + TMDB_MAX_APPENDS);
+    const append = batch.map((seasonNumber) => `season/${seasonNumber}`);
+    const url = `https://api.themoviedb.org/3/tv/${id}?append_to_response=${append.join(",")}&language=en-US`;
+
+    try {
+      const response = await fetch(url, TMDB_REQUEST_OPTIONS);
+      if (!response.ok) {
+        throw new HttpError(
+          response.status,
+          `TMDB API Error: ${response.status} ${response.statusText}`,
+        );
+      }
+
+      const rawData = (await response.json()) as Record<string, unknown>;
+      for (const seasonNumber of batch) {
+        const parsed = seasonEpisodesSchema.safeParse(
+          rawData[`season/${seasonNumber}`],
+        );
+        episodes.set(
+          seasonNumber,
+          parsed.success ? parsed.data.episodes.map(toEpisodeSummary) : [],
+        );
+      }
+    } catch (error) {
+      console.error("Failed to fetch season episodes", { id, batch, error });
+    }
+  }
+
+  return episodes;
+}
+
+/**
+ * Stores the season/episode metadata needed for progress tracking
+ * on the local TV row, so progress can be computed without TMDB calls.
+ *
+ * - Each season keeps its episodes' names and air dates. They are dropped
+ *   when a season is new, its episode count changed, or a new episode of it
+ *   aired, and reused otherwise; `syncSeasonEpisodes` fetches the dropped
+ *   ones in the background, so this makes no extra TMDB calls
+ * - Nothing is written when the metadata is unchanged, apart from
+ *   re-stamping `metadataUpdatedAt` (at most every
+ *   `METADATA_TOUCH_INTERVAL_MS`) so staleness checks keep working
+ *
+ * @param id - TMDB series ID
+ * @param data - Validated TMDB series details
+ */
+export async function updateTvMetadata(
+  id: number,
+  data: Pick<
+    TVDetails,
+    "in_production" | "seasons" | "last_episode_to_air" | "next_episode_to_air"
+  >,
+) {
+  const [stored] = await db
+    .select({
+      inProduction: tv.inProduction,
+      seasons: tv.seasons,
+      lastEpisodeToAir: tv.lastEpisodeToAir,
+      nextEpisodeToAir: tv.nextEpisodeToAir,
+      metadataUpdatedAt: tv.metadataUpdatedAt,
+    })
+    .from(tv)
+    .where(eq(tv.id, id));
+
+  if (!stored) return;
+
+  const storedSeasons = new Map(
+    (stored.seasons ?? []).map((season) => [season.seasonNumber, season]),
+  );
+  const last = data.last_episode_to_air;
+  const lastAired =
+    last &&
+    (stored.lastEpisodeToAir?.seasonNumber !== last.season_number ||
+      stored.lastEpisodeToAir?.episodeNumber !== last.episode_number)
+      ? last.season_number
+      : null;
+
+  // Specials (season 0) are not tracked, so their episodes are not needed
+  const outdated = data.seasons
+    .filter((season) => {
+      const storedSeason = storedSeasons.get(season.season_number);
+      return (
+        season.season_number > 0 &&
+        (!storedSeason?.episodes ||
+          storedSeason.episodeCount !== season.episode_count ||
+          season.season_number === lastAired)
+      );
+    })
+    .map((season) => season.season_number);
+
+  const values = {
+    inProduction: data.in_production,
+    seasons: data.seasons.map((season) => {
+      const episodes = outdated.includes(season.season_number)
+        ? undefined
+        : storedSeasons.get(season.season_number)?.episodes;
+
+      return {
+        seasonNumber: season.season_number,
+        episodeCount: season.episode_count,
+        airDate: season.air_date || null,
+        ...(episodes ? { episodes } : {}),
+      };
+    }),
+    lastEpisodeToAir: last ? toEpisodeSummary(last) : null,
+    nextEpisodeToAir: data.next_episode_to_air
+      ? toEpisodeSummary(data.next_episode_to_air)
+      : null,
+  };
+
+  if (!hasChanges(stored, values) && !needsTouch(stored.metadataUpdatedAt)) {
+    return;
+  }
+
+  await db
+    .update(tv)
+    .set({ ...values, metadataUpdatedAt: new Date() })
+    .where(eq(tv.id, id));
+}
+
+/**
+ * Fetches episode names and air dates for series seasons stored without
+ * them (see `updateTvMetadata`), most recently refreshed series first.
+ * Seasons whose TMDB request fails stay without episodes and are retried
+ * on the next run.
+ *
+ * @param limit - Max series per run (keeps TMDB usage bounded)
+ * @returns Number of series updated
+ */
+export async function syncSeasonEpisodes(limit = SEASON_EPISODES_BATCH) {
+  const pending = await db
+    .select({ id: tv.id, seasons: tv.seasons })
+    .from(tv)
+    .where(
+      sql`EXISTS (
+        SELECT 1 FROM jsonb_array_elements(${tv.seasons}) AS season
+        WHERE (season->>'seasonNumber')::int > 0 AND NOT season ? 'episodes'
+      )`,
+    )
+    .orderBy(sql`${tv.metadataUpdatedAt} DESC NULLS LAST`, tv.id)
+    .limit(limit);
+
+  let updated = 0;
+  for (const series of pending) {
+    const missing = (series.seasons ?? [])
+      .filter((season) => season.seasonNumber > 0 && !season.episodes)
+      .map((season) => season.seasonNumber);
+
+    const fetched = await fetchSeasonEpisodes(series.id, missing);
+    if (fetched.size === 0) continue;
+
+    // Merge into the current row, which a details refresh may have changed
+    await db.transaction(async (trx) => {
+      const [current] = await trx
+        .select({ seasons: tv.seasons })
+        .from(tv)
+        .where(eq(tv.id, series.id))
+        .for("update");
+
+      if (!current?.seasons) return;
+
+      await trx
+        .update(tv)
+        .set({
+          seasons: current.seasons.map((season) => {
+            const episodes = fetched.get(season.seasonNumber);
+            return !season.episodes && episodes
+              ? { ...season, episodes }
+              : season;
+          }),
+        })
+        .where(eq(tv.id, series.id));
+      updated++;
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Stores the genres, runtime and credits that user stats aggregate on the
+ * local movie/TV row. Expects credits already trimmed to the billed cast
+ * and directors, as `fetchDetails` does.
+ *
+ * - Movies keep their directors; series keep their creators
+ * - A series' runtime is its typical episode length
+ * - Nothing is written when the stored values are unchanged; writes stamp
+ *   `metadataUpdatedAt` for movies and series alike
+ *
+ * @param id - TMDB media ID
+ * @param data - Validated TMDB details
+ */
+export async function updateStatsMetadata(
+  id: number,
+  data: CombinedMediaDetails,
+) {
+  const toCredit = ({ id, name }: { id: number; name: string }) => ({
+    id,
+    name,
+  });
+
+  const genres = data.genres.map((genre) => genre.name);
+  const cast = data.credits.cast.map(toCredit);
+
+  if (data.media_type === "movie") {
+    const values = {
+      runtime: data.runtime || null,
+      genres,
+      directors: data.credits.crew
+        .filter((member) => member.job === "Director")
+        .map(toCredit),
+      cast,
+    };
+
+    const [stored] = await db
+      .select({
+        runtime: movie.runtime,
+        genres: movie.genres,
+        directors: movie.directors,
+        cast: movie.cast,
+      })
+      .from(movie)
+      .where(eq(movie.id, id));
+
+    if (!stored || !hasChanges(stored, values)) return;
+
+    await db
+      .update(movie)
+      .set({ ...values, metadataUpdatedAt: new Date() })
+      .where(eq(movie.id, id));
+  } else {
+    const values = {
+      runtime:
+        data.episode_run_time[0] || data.last_episode_to_air?.runtime || null,
+      genres,
+      creators: data.created_by.map(toCredit),
+      cast,
+    };
+
+    const [stored] = await db
+      .select({
+        runtime: tv.runtime,
+        genres: tv.genres,
+        creators: tv.creators,
+        cast: tv.cast,
+      })
+      .from(tv)
+      .where(eq(tv.id, id));
+
+    if (!stored || !hasChanges(stored, values)) return;
+
+    await db
+      .update(tv)
+      .set({ ...values, metadataUpdatedAt: new Date() })
+      .where(eq(tv.id, id));
+  }
+}
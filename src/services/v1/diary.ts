@@ -0,0 +1,393 @@
+import { db, type Transaction } from "@/drizzle";
+import { diaryEntry, movie, tv } from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { sanitizeText, validateTextLength } from "@/lib/sanitize-text";
+import { getReviewTables } from "@/lib/utils";
+import { validateRating } from "@/lib/validate-rating";
+import { and, count, desc, eq, sql } from "drizzle-orm";
+
+export const DIARY_NOTE_MAX_LENGTH = 1000;
+
+type MediaType = "movie" | "tv";
+
+type CreateDiaryEntry = {
+  userId: string;
+  mediaType: MediaType;
+  mediaId: number;
+  watchedOn: string;
+  rewatch?: boolean;
+  rating?: string | null;
+  note?: string | null;
+};
+
+type DiaryEntryUpdates = {
+  watchedOn?: string;
+  rewatch?: boolean;
+  rating?: string | null;
+  note?: string | null;
+};
+
+type DiaryPage = {
+  page: number;
+  limit: number;
+};
+
+/**
+ * Internal: Validates a `YYYY-MM-DD` watch date.
+ * Dates up to one day ahead are accepted to tolerate client time zones.
+ *
+ * @param raw - The date string provided by the client
+ * @returns The validated date string
+ * @throws HttpError (400) when the date is malformed or in the future
+ */
+function parseWatchedOn(raw: string) {
+  const value = raw.trim();
+  const parsed = new Date(`${value}T00:00:00Z`);
+
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    Number.isNaN(parsed.getTime()) ||
+    parsed.toISOString().slice(0, 10) !== value
+  ) {
+    throw new HttpError(400, "Watch date must be a valid YYYY-MM-DD date");
+  }
+
+  const tomorrow = Date.now() + 24 * 60 * 60 * 1000;
+  if (parsed.getTime() > tomorrow) {
+    throw new HttpError(400, "Watch date cannot be in the future");
+  }
+
+  return value;
+}
+
+/**
+ * Internal: Validates an optional per-viewing rating.
+ *
+ * @throws HttpError (400) when the rating is invalid
+ */
+function parseRating(raw: string | null) {
+  if (raw === null || raw.trim() === "") return null;
+
+  const rating = raw.trim();
+  const error = validateRating(rating);
+  if (error) {
+    throw new HttpError(400, error);
+  }
+
+  return rating;
+}
+
+/**
+ * Internal: Sanitizes an optional viewing note. Empty notes become `null`.
+ *
+ * @throws HttpError (400) when the note is too long
+ */
+function parseNote(raw: string | null) {
+  if (raw === null) return null;
+
+  const note = sanitizeText(raw);
+  const error = validateTextLength(note, "Note", DIARY_NOTE_MAX_LENGTH);
+  if (error) {
+    throw new HttpError(400, error);
+  }
+
+  return note === "" ? null : note;
+}
+
+/**
+ * Internal: Builds the predicate matching every diary entry a user has for a title.
+ */
+function mediaPredicate(userId: string, mediaType: MediaType, mediaId: number) {
+  return and(
+    eq(diaryEntry.userId, userId),
+    mediaType === "movie"
+      ? eq(diaryEntry.movieId, mediaId)
+      : eq(diaryEntry.seriesId, mediaId),
+  );
+}
+
+/**
+ * Internal: Serializes diary writes for one user and title until the
+ * transaction ends, so concurrent requests can't both see the title as
+ * never logged (and both log a first viewing).
+ */
+async function lockTitle(
+  trx: Transaction,
+  userId: string,
+  mediaType: MediaType,
+  mediaId: number,
+) {
+  await trx.execute(
+    sql`SELECT pg_advisory_xact_lock(hashtext(${`diary:${userId}:${mediaType}:${mediaId}`}))`,
+  );
+}
+
+/**
+ * Internal: Counts a user's diary entries for a title.
+ */
+async function countEntries(
+  trx: Transaction,
+  userId: string,
+  mediaType: MediaType,
+  mediaId: number,
+) {
+  const [result] = await trx
+    .select({ total: count(diaryEntry.id).mapWith(Number) })
+    .from(diaryEntry)
+    .where(mediaPredicate(userId, mediaType, mediaId));
+
+  return result?.total ?? 0;
+}
+
+/**
+ * Internal: Mirrors diary state onto the review's `watched` flag.
+ * Only existing reviews are updated; ratings are never created here.
+ */
+async function syncWatchedFlag(
+  trx: Transaction,
+  userId: string,
+  mediaType: MediaType,
+  mediaId: number,
+  watched: boolean,
+) {
+  const { table, idCol } = getReviewTables()[mediaType];
+
+  await trx
+    .update(table)
+    .set({ watched, updatedAt: new Date() })
+    .where(and(eq(table.userId, userId), eq(idCol, mediaId)));
+}
+
+/**
+ * Internal: Selects diary entries with unified movie/TV fields.
+ */
+function selectEntries() {
+  return db
+    .select({
+      id: diaryEntry.id,
+      mediaType: sql<MediaType>`${diaryEntry.mediaType}`,
+      mediaId:
+        sql<number>`COALESCE(${diaryEntry.movieId}, ${diaryEntry.seriesId})`.mapWith(
+          Number,
+        ),
+      title: sql<string>`COALESCE(${movie.title}, ${tv.title})`,
+      posterPath: sql<
+        string | null
+      >`COALESCE(${movie.posterPath}, ${tv.posterPath})`,
+      watchedOn: diaryEntry.watchedOn,
+      rewatch: diaryEntry.rewatch,
+      rating: diaryEntry.rating,
+      note: diaryEntry.note,
+      createdAt: diaryEntry.createdAt,
+      updatedAt: diaryEntry.updatedAt,
+    })
+    .from(diaryEntry)
+    .leftJoin(movie, eq(diaryEntry.movieId, movie.id))
+    .leftJoin(tv, eq(diaryEntry.seriesId, tv.id));
+}
+
+/**
+ * Retrieves a page of a user's diary, newest viewing first,
+ * grouped by the month it was watched in.
+ *
+ * @param userId - The diary owner
+ * @param pagination - `{ page, limit }` (1-based page)
+ * @returns `{ months: [{ month: "YYYY-MM", entries }], page, limit, hasMore }`
+ */
+export async function getDiaryEntries(
+  userId: string,
+  { page, limit }: DiaryPage,
+) {
+  const rows = await selectEntries()
+    .where(eq(diaryEntry.userId, userId))
+    .orderBy(desc(diaryEntry.watchedOn), desc(diaryEntry.id))
+    .limit(limit + 1)
+    .offset((page - 1) * limit);
+
+  const hasMore = rows.length > limit;
+  const entries = hasMore ? rows.slice(0, limit) : rows;
+
+  const months: { month: string; entries: typeof entries }[] = [];
+  for (const entry of entries) {
+    const month = entry.watchedOn.slice(0, 7);
+    const group = months[months.length - 1];
+
+    if (group && group.month === month) {
+      group.entries.push(entry);
+    } else {
+      months.push({ month, entries: [entry] });
+    }
+  }
+
+  return { months, page, limit, hasMore };
+}
+
+/**
+ * Retrieves a single diary entry owned by the user.
+ *
+ * @param userId - The diary owner
+ * @param entryId - Diary entry ID
+ * @returns The entry, or `undefined` if not found
+ */
+export async function getDiaryEntry(userId: string, entryId: number) {
+  const [result] = await selectEntries().where(
+    and(eq(diaryEntry.userId, userId), eq(diaryEntry.id, entryId)),
+  );
+
+  return result;
+}
+
+/**
+ * Logs a viewing in the user's diary.
+ *
+ * Behavior:
+ * - `rewatch` defaults to `true` when the title already has diary entries
+ * - The first entry for a title marks the existing review as watched
+ *
+ * @param data - `{ userId, mediaType, mediaId, watchedOn, rewatch?, rating?, note? }`
+ * @returns The created entry
+ */
+export async function createDiaryEntry(data: CreateDiaryEntry) {
+  const { userId, mediaType, mediaId } = data;
+
+  const watchedOn = parseWatchedOn(data.watchedOn);
+  const rating = parseRating(data.rating ?? null);
+  const note = parseNote(data.note ?? null);
+
+  const entryId = await db.transaction(async (trx) => {
+    await lockTitle(trx, userId, mediaType, mediaId);
+    const existing = await countEntries(trx, userId, mediaType, mediaId);
+
+    const [inserted] = await trx
+      .insert(diaryEntry)
+      .values({
+        userId,
+        mediaType,
+        movieId: mediaType === "movie" ? mediaId : null,
+        seriesId: mediaType === "tv" ? mediaId : null,
+        watchedOn,
+        rewatch: data.rewatch ?? existing > 0,
+        rating,
+        note,
+      })
+      .returning({ id: diaryEntry.id });
+
+    if (existing === 0) {
+      await syncWatchedFlag(trx, userId, mediaType, mediaId, true);
+    }
+
+    return inserted?.id;
+  });
+
+  if (!entryId) {
+    throw new HttpError(500, "Failed to create diary entry");
+  }
+
+  return getDiaryEntry(userId, entryId);
+}
+
+/**
+ * Creates a diary entry dated today if the user has never logged the title.
+ * Used when a title is marked watched without an explicit viewing. The
+ * check and insert hold the title's lock (in a savepoint when `trx` is
+ * already a transaction), so concurrent calls create one entry.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param userId - The diary owner
+ * @param mediaType - "movie" | "tv"
+ * @param mediaId - TMDB media ID
+ * @param watchedOn - Optional watch date (defaults to today, UTC)
+ * @returns `true` when an entry was created
+ */
+export async function ensureDiaryEntry(
+  trx: typeof db | Transaction,
+  userId: string,
+  mediaType: MediaType,
+  mediaId: number,
+  watchedOn = new Date().toISOString().slice(0, 10),
+) {
+  return trx.transaction(async (tx) => {
+    await lockTitle(tx, userId, mediaType, mediaId);
+
+    const [existing] = await tx
+      .select({ id: diaryEntry.id })
+      .from(diaryEntry)
+      .where(mediaPredicate(userId, mediaType, mediaId))
+      .limit(1);
+
+    if (existing) return false;
+
+    await tx.insert(diaryEntry).values({
+      userId,
+      mediaType,
+      movieId: mediaType === "movie" ? mediaId : null,
+      seriesId: mediaType === "tv" ? mediaId : null,
+      watchedOn,
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Updates a diary entry owned by the user.
+ *
+ * @param userId - The diary owner
+ * @param entryId - Diary entry ID
+ * @param updates - Fields to change (`null` clears rating/note)
+ * @returns The updated entry, or `undefined` if not found
+ */
+export async function updateDiaryEntry(
+  userId: string,
+  entryId: number,
+  updates: DiaryEntryUpdates,
+) {
+  const values: Partial<typeof diaryEntry.$inferInsert> = {};
+
+  if (updates.watchedOn !== undefined) {
+    values.watchedOn = parseWatchedOn(updates.watchedOn);
+  }
+  if (updates.rewatch !== undefined) values.rewatch = updates.rewatch;
+  if (updates.rating !== undefined) values.rating = parseRating(updates.rating);
+  if (updates.note !== undefined) values.note = parseNote(updates.note);
+
+  const [updated] = await db
+    .update(diaryEntry)
+    .set({ ...values, updatedAt: new Date() })
+    .where(and(eq(diaryEntry.userId, userId), eq(diaryEntry.id, entryId)))
+    .returning({ id: diaryEntry.id });
+
+  if (!updated) return undefined;
+
+  return getDiaryEntry(userId, updated.id);
+}
+
+/**
+ * Deletes a diary entry owned by the user.
+ * Removing the last entry for a title clears the review's watched flag.
+ *
+ * @param userId - The diary owner
+ * @param entryId - Diary entry ID
+ * @returns The deleted row, or `undefined` if not found
+ */
+export async function deleteDiaryEntry(userId: string, entryId: number) {
+  return db.transaction(async (trx) => {
+    const [deleted] = await trx
+      .delete(diaryEntry)
+      .where(and(eq(diaryEntry.userId, userId), eq(diaryEntry.id, entryId)))
+      .returning();
+
+    if (!deleted) return undefined;
+
+    const mediaType = deleted.mediaType as MediaType;
+    const mediaId = (deleted.movieId ?? deleted.seriesId)!;
+
+    await lockTitle(trx, userId, mediaType, mediaId);
+    const remaining = await countEntries(trx, userId, mediaType, mediaId);
+    if (remaining === 0) {
+      await syncWatchedFlag(trx, userId, mediaType, mediaId, false);
+    }
+
+    return deleted;
+  });
+}
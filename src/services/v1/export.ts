@@ -0,0 +1,408 @@
+import { db, type Transaction } from "@/drizzle";
+import {
+  diaryEntry,
+  follow,
+  list,
+  listItem,
+  listLikes,
+  listSaves,
+  listSlugHistory,
+  movie,
+  movieReview,
+  profile,
+  profileFavorite,
+  tv,
+  tvEpisodeWatch,
+  tvReview,
+  tvSeasonReview,
+  user,
+  watchlistItem,
+} from "@/drizzle/schema";
+import { createTarGz, type ArchiveEntry } from "@/lib/archive";
+import { toCsv } from "@/lib/csv";
+import { HttpError } from "@/lib/httpError";
+import { toPriorityName } from "@/lib/watchlist-priority";
+import { listItemOrder } from "@/services/v1/list-order";
+import { asc, eq, sql } from "drizzle-orm";
+import type { SelectedFields } from "drizzle-orm/pg-core";
+
+type Dataset = {
+  columns: string[];
+  rows: Record<string, unknown>[];
+};
+
+/**
+ * Internal: Runs a select and keeps its field names as the dataset's
+ * columns, so datasets without rows still get a CSV header.
+ */
+async function selectDataset<T extends SelectedFields>(
+  fields: T,
+  query: (fields: T) => Promise<Record<string, unknown>[]>,
+): Promise<Dataset> {
+  return { columns: Object.keys(fields), rows: await query(fields) };
+}
+
+/**
+ * Internal: Lists liked or saved lists with enough context to identify them.
+ */
+function selectListInteractions(
+  trx: Transaction,
+  table: typeof listLikes | typeof listSaves,
+  userId: string,
+) {
+  return selectDataset(
+    {
+      listId: table.listId,
+      listName: list.name,
+      listSlug: list.slug,
+      ownerUsername: user.username,
+      createdAt: table.createdAt,
+    },
+    (fields) =>
+      trx
+        .select(fields)
+        .from(table)
+        .innerJoin(list, eq(table.listId, list.id))
+        .innerJoin(user, eq(list.userId, user.id))
+        .where(eq(table.userId, userId))
+        .orderBy(asc(table.createdAt)),
+  );
+}
+
+/**
+ * Collects everything a user owns, keyed by dataset name.
+ * All reads run in one read-only, repeatable-read transaction so the
+ * datasets are a consistent snapshot of the account.
+ *
+ * @param userId - The account owner
+ * @returns Map of dataset name to `{ columns, rows }`
+ */
+export async function getAccountData(
+  userId: string,
+): Promise<Record<string, Dataset>> {
+  return db.transaction(
+    async (trx) => {
+      const account = await selectDataset(
+        {
+          id: user.id,
+          username: user.username,
+          displayUsername: user.displayUsername,
+          name: user.name,
+          email: user.email,
+          emailVerified: user.emailVerified,
+          image: user.image,
+          bio: profile.bio,
+          location: profile.location,
+          links: profile.links,
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(user)
+            .leftJoin(profile, eq(profile.userId, user.id))
+            .where(eq(user.id, userId)),
+      );
+
+      if (account.rows.length === 0) {
+        throw new HttpError(404, "User not found");
+      }
+
+      const movieReviews = await selectDataset(
+        {
+          movieId: movieReview.movieId,
+          title: movie.title,
+          rating: movieReview.rating,
+          liked: movieReview.liked,
+          watched: movieReview.watched,
+          review: movieReview.review,
+          createdAt: movieReview.createdAt,
+          updatedAt: movieReview.updatedAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(movieReview)
+            .innerJoin(movie, eq(movieReview.movieId, movie.id))
+            .where(eq(movieReview.userId, userId))
+            .orderBy(asc(movieReview.createdAt)),
+      );
+
+      const tvReviews = await selectDataset(
+        {
+          seriesId: tvReview.seriesId,
+          title: tv.title,
+          rating: tvReview.rating,
+          liked: tvReview.liked,
+          watched: tvReview.watched,
+          review: tvReview.review,
+          createdAt: tvReview.createdAt,
+          updatedAt: tvReview.updatedAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(tvReview)
+            .innerJoin(tv, eq(tvReview.seriesId, tv.id))
+            .where(eq(tvReview.userId, userId))
+            .orderBy(asc(tvReview.createdAt)),
+      );
+
+      const lists = await selectDataset(
+        {
+          id: list.id,
+          name: list.name,
+          slug: list.slug,
+          description: list.description,
+          visibility: list.visibility,
+          isRanked: list.isRanked,
+          forkedFromId: list.forkedFromId,
+          deletedAt: list.deletedAt,
+          likeCount: list.likeCount,
+          saveCount: list.saveCount,
+          createdAt: list.createdAt,
+          updatedAt: list.updatedAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(list)
+            .where(eq(list.userId, userId))
+            .orderBy(asc(list.createdAt)),
+      );
+
+      const listItems = await selectDataset(
+        {
+          listId: listItem.listId,
+          listName: list.name,
+          mediaType: listItem.mediaType,
+          mediaId:
+            sql<number>`COALESCE(${listItem.movieId}, ${listItem.seriesId})`.mapWith(
+              Number,
+            ),
+          title: sql<string>`COALESCE(${movie.title}, ${tv.title})`,
+          note: listItem.note,
+          hasSpoilers: listItem.hasSpoilers,
+          createdAt: listItem.createdAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(listItem)
+            .innerJoin(list, eq(listItem.listId, list.id))
+            .leftJoin(movie, eq(listItem.movieId, movie.id))
+            .leftJoin(tv, eq(listItem.seriesId, tv.id))
+            .where(eq(list.userId, userId))
+            .orderBy(asc(listItem.listId), ...listItemOrder),
+      );
+
+      const listSlugs = await selectDataset(
+        {
+          listId: listSlugHistory.listId,
+          oldSlug: listSlugHistory.oldSlug,
+          createdAt: listSlugHistory.createdAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(listSlugHistory)
+            .innerJoin(list, eq(listSlugHistory.listId, list.id))
+            .where(eq(list.userId, userId))
+            .orderBy(asc(listSlugHistory.createdAt)),
+      );
+
+      const likes = await selectListInteractions(trx, listLikes, userId);
+      const saves = await selectListInteractions(trx, listSaves, userId);
+
+      const diary = await selectDataset(
+        {
+          id: diaryEntry.id,
+          mediaType: diaryEntry.mediaType,
+          mediaId:
+            sql<number>`COALESCE(${diaryEntry.movieId}, ${diaryEntry.seriesId})`.mapWith(
+              Number,
+            ),
+          title: sql<string>`COALESCE(${movie.title}, ${tv.title})`,
+          watchedOn: diaryEntry.watchedOn,
+          rewatch: diaryEntry.rewatch,
+          rating: diaryEntry.rating,
+          note: diaryEntry.note,
+          createdAt: diaryEntry.createdAt,
+          updatedAt: diaryEntry.updatedAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(diaryEntry)
+            .leftJoin(movie, eq(diaryEntry.movieId, movie.id))
+            .leftJoin(tv, eq(diaryEntry.seriesId, tv.id))
+            .where(eq(diaryEntry.userId, userId))
+            .orderBy(asc(diaryEntry.watchedOn), asc(diaryEntry.id)),
+      );
+
+      const watchlist = await selectDataset(
+        {
+          mediaType: watchlistItem.mediaType,
+          mediaId:
+            sql<number>`COALESCE(${watchlistItem.movieId}, ${watchlistItem.seriesId})`.mapWith(
+              Number,
+            ),
+          title: sql<string>`COALESCE(${movie.title}, ${tv.title})`,
+          priority: watchlistItem.priority,
+          createdAt: watchlistItem.createdAt,
+        },
+        async (fields) => {
+          const items = await trx
+            .select(fields)
+            .from(watchlistItem)
+            .leftJoin(movie, eq(watchlistItem.movieId, movie.id))
+            .leftJoin(tv, eq(watchlistItem.seriesId, tv.id))
+            .where(eq(watchlistItem.userId, userId))
+            .orderBy(asc(watchlistItem.createdAt));
+
+          return items.map((item) => ({
+            ...item,
+            priority: toPriorityName(item.priority),
+          }));
+        },
+      );
+
+      const episodes = await selectDataset(
+        {
+          seriesId: tvEpisodeWatch.seriesId,
+          title: tv.title,
+          seasonNumber: tvEpisodeWatch.seasonNumber,
+          episodeNumber: tvEpisodeWatch.episodeNumber,
+          watchedAt: tvEpisodeWatch.watchedAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(tvEpisodeWatch)
+            .innerJoin(tv, eq(tvEpisodeWatch.seriesId, tv.id))
+            .where(eq(tvEpisodeWatch.userId, userId))
+            .orderBy(
+              asc(tvEpisodeWatch.seriesId),
+              asc(tvEpisodeWatch.seasonNumber),
+              asc(tvEpisodeWatch.episodeNumber),
+            ),
+      );
+
+      const seasonRatings = await selectDataset(
+        {
+          seriesId: tvSeasonReview.seriesId,
+          title: tv.title,
+          seasonNumber: tvSeasonReview.seasonNumber,
+          rating: tvSeasonReview.rating,
+          createdAt: tvSeasonReview.createdAt,
+          updatedAt: tvSeasonReview.updatedAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(tvSeasonReview)
+            .innerJoin(tv, eq(tvSeasonReview.seriesId, tv.id))
+            .where(eq(tvSeasonReview.userId, userId))
+            .orderBy(
+              asc(tvSeasonReview.seriesId),
+              asc(tvSeasonReview.seasonNumber),
+            ),
+      );
+
+      const following = await selectDataset(
+        {
+          username: user.username,
+          createdAt: follow.createdAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(follow)
+            .innerJoin(user, eq(follow.followingId, user.id))
+            .where(eq(follow.followerId, userId))
+            .orderBy(asc(follow.createdAt)),
+      );
+
+      const favorites = await selectDataset(
+        {
+          position: profileFavorite.position,
+          movieId: profileFavorite.movieId,
+          title: movie.title,
+          createdAt: profileFavorite.createdAt,
+        },
+        (fields) =>
+          trx
+            .select(fields)
+            .from(profileFavorite)
+            .innerJoin(movie, eq(profileFavorite.movieId, movie.id))
+            .where(eq(profileFavorite.userId, userId))
+            .orderBy(asc(profileFavorite.position)),
+      );
+
+      return {
+        profile: account,
+        movie_reviews: movieReviews,
+        tv_reviews: tvReviews,
+        lists,
+        list_items: listItems,
+        list_slug_history: listSlugs,
+        list_likes: likes,
+        list_saves: saves,
+        diary,
+        watchlist,
+        tv_episodes: episodes,
+        tv_season_ratings: seasonRatings,
+        following,
+        favorite_films: favorites,
+      };
+    },
+    { isolationLevel: "repeatable read", accessMode: "read only" },
+  );
+}
+
+/**
+ * Builds a downloadable `.tar.gz` archive of the user's account data.
+ * Each dataset is written as `<name>.json` and `<name>.csv`, alongside a
+ * `manifest.json` with the export time and row counts.
+ *
+ * @param userId - The account owner
+ * @returns `{ fileName, archive }`
+ */
+export async function createAccountExport(userId: string) {
+  const data = await getAccountData(userId);
+  const exportedAt = new Date();
+
+  const root = `framerate-export-${exportedAt.toISOString().slice(0, 10)}`;
+  const entries: ArchiveEntry[] = [
+    {
+      name: `${root}/manifest.json`,
+      content: JSON.stringify(
+        {
+          exportedAt,
+          userId,
+          datasets: Object.fromEntries(
+            Object.entries(data).map(([name, { rows }]) => [name, rows.length]),
+          ),
+        },
+        null,
+        2,
+      ),
+    },
+  ];
+
+  for (const [name, { columns, rows }] of Object.entries(data)) {
+    entries.push(
+      {
+        name: `${root}/json/${name}.json`,
+        content: JSON.stringify(rows, null, 2),
+      },
+      { name: `${root}/csv/${name}.csv`, content: toCsv(rows, columns) },
+    );
+  }
+
+  return {
+    fileName: `${root}.tar.gz`,
+    archive: createTarGz(entries, exportedAt),
+  };
+}
@@ -0,0 +1,178 @@
+import { db } from "@/drizzle";
+import { follow, user } from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { notify, retractNotification } from "@/services/v1/notifications";
+import { and, count, desc, eq } from "drizzle-orm";
+
+/**
+ * Internal: Resolves a username to a user ID.
+ *
+ * @throws HttpError 404 if the user does not exist
+ */
+async function getUserId(username: string) {
+  const [target] = await db
+    .select({ id: user.id })
+    .from(user)
+    .where(eq(user.username, username));
+
+  if (!target) {
+    throw new HttpError(404, "User not found");
+  }
+
+  return target.id;
+}
+
+/**
+ * Follows a user (idempotent). New follows notify the followed user.
+ *
+ * @param followerId - The user following
+ * @param username - Username to follow
+ * @returns `{ created: boolean }`
+ * @throws HttpError 404 if the user does not exist, 400 when following yourself
+ */
+export async function followUser(followerId: string, username: string) {
+  const followingId = await getUserId(username);
+
+  if (followingId === followerId) {
+    throw new HttpError(400, "You can't follow yourself");
+  }
+
+  const created = await db.transaction(async (trx) => {
+    const inserted = await trx
+      .insert(follow)
+      .values({ followerId, followingId })
+      .onConflictDoNothing({ target: [follow.followerId, follow.followingId] })
+      .returning();
+
+    if (inserted.length === 0) return false;
+
+    await notify(trx, {
+      userId: followingId,
+      actorId: followerId,
+      type: "followed",
+    });
+
+    return true;
+  });
+
+  return { created };
+}
+
+/**
+ * Unfollows a user (idempotent), withdrawing the follow notification.
+ *
+ * @param followerId - The user unfollowing
+ * @param username - Username to unfollow
+ * @returns `{ deleted: boolean }`
+ * @throws HttpError 404 if the user does not exist
+ */
+export async function unfollowUser(followerId: string, username: string) {
+  const followingId = await getUserId(username);
+
+  const deleted = await db.transaction(async (trx) => {
+    const removed = await trx
+      .delete(follow)
+      .where(
+        and(
+          eq(follow.followerId, followerId),
+          eq(follow.followingId, followingId),
+        ),
+      )
+      .returning();
+
+    if (removed.length === 0) return false;
+
+    await retractNotification(trx, {
+      userId: followingId,
+      actorId: followerId,
+      type: "followed",
+    });
+
+    return true;
+  });
+
+  return { deleted };
+}
+
+/**
+ * Retrieves follower/following counts for a user, and whether the viewer
+ * follows them.
+ *
+ * @param username - The user's username
+ * @param viewerId - Optional ID of the signed-in viewer
+ * @returns `{ followerCount, followingCount, isFollowing }`
+ * @throws HttpError 404 if the user does not exist
+ */
+export async function getFollowStats(username: string, viewerId?: string) {
+  const userId = await getUserId(username);
+
+  const [[followers], [following], viewerFollow] = await Promise.all([
+    db
+      .select({ value: count() })
+      .from(follow)
+      .where(eq(follow.followingId, userId)),
+    db
+      .select({ value: count() })
+      .from(follow)
+      .where(eq(follow.followerId, userId)),
+    viewerId
+      ? db
+          .select({ followerId: follow.followerId })
+          .from(follow)
+          .where(
+            and(
+              eq(follow.followerId, viewerId),
+              eq(follow.followingId, userId),
+            ),
+          )
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    followerCount: followers?.value ?? 0,
+    followingCount: following?.value ?? 0,
+    isFollowing: viewerFollow.length > 0,
+  };
+}
+
+/**
+ * Retrieves a page of a user's followers or the users they follow,
+ * most recent first.
+ *
+ * @param username - The user's username
+ * @param direction - "followers" | "following"
+ * @param pagination - `{ page, limit }` (1-based page)
+ * @returns `{ users: { username, name, image, followedAt }[], page, limit, hasMore }`
+ * @throws HttpError 404 if the user does not exist
+ */
+export async function getFollows(
+  username: string,
+  direction: "followers" | "following",
+  { page, limit }: { page: number; limit: number },
+) {
+  const userId = await getUserId(username);
+
+  const [ownCol, otherCol] =
+    direction === "followers"
+      ? [follow.followingId, follow.followerId]
+      : [follow.followerId, follow.followingId];
+
+  const rows = await db
+    .select({
+      username: user.username,
+      name: user.name,
+      image: user.image,
+      followedAt: follow.createdAt,
+    })
+    .from(follow)
+    .innerJoin(user, eq(user.id, otherCol))
+    .where(eq(ownCol, userId))
+    .orderBy(desc(follow.createdAt), desc(otherCol))
+    .limit(limit + 1)
+    .offset((page - 1) * limit);
+
+  const hasMore = rows.length > limit;
+  const users = hasMore ? rows.slice(0, limit) : rows;
+
+  return { users, page, limit, hasMore };
+}
@@ -0,0 +1,385 @@
+import { db } from "@/drizzle";
+import { list } from "@/drizzle/schema";
+import { parseCsv, toRecords } from "@/lib/csv";
+import { HttpError } from "@/lib/httpError";
+import { generateSlug } from "@/lib/slug";
+import { addMediaToDB } from "@/services/v1/details";
+import { ensureDiaryEntry } from "@/services/v1/diary";
+import { addListItem, createList } from "@/services/v1/lists";
+import { addReview, updateReviewText } from "@/services/v1/reviews";
+import {
+  createTmdbResolver,
+  withResolverCache,
+  type TitleMatch,
+  type TitleResolver,
+} from "@/services/v1/title-resolver";
+import { and, eq, isNull } from "drizzle-orm";
+
+// Guards against oversized uploads tying up the TMDB quota
+const MAX_ROWS_PER_FILE = 5000;
+
+// Titles resolved within one import request (one TMDB search each); the
+// CLI script imports without a cap
+export const MAX_IMPORT_TITLES = 500;
+
+export type LetterboxdExport = {
+  ratings?: string;
+  reviews?: string;
+  watched?: string;
+  lists?: { fileName: string; content: string }[];
+};
+
+type ImportRow = {
+  file: string;
+  row: number;
+  name: string;
+  year: number | null;
+  status: "matched" | "skipped" | "ambiguous";
+  mediaId?: number;
+  reason?: string;
+  candidates?: TitleMatch[];
+};
+
+type ImportedList = {
+  file: string;
+  listId: number;
+  name: string;
+  created: boolean;
+};
+
+export type ImportReport = {
+  summary: { matched: number; skipped: number; ambiguous: number };
+  lists: ImportedList[];
+  rows: ImportRow[];
+};
+
+/**
+ * Internal: Parses a Letterboxd year cell.
+ */
+function parseYear(raw: string | undefined) {
+  const year = Number(raw);
+  return Number.isInteger(year) && year > 1800 ? year : null;
+}
+
+/**
+ * Internal: Parses a Letterboxd date cell (`YYYY-MM-DD`).
+ */
+function parseDate(raw: string | undefined) {
+  return raw && /^\d{4}-\d{2}-\d{2}$/.test(raw) ? raw : undefined;
+}
+
+/**
+ * Internal: Checks a Letterboxd star rating for `addReview`. Stars keep their
+ * value on the 0.5-step scale (3.5★ → 3.5), so ½★ falls below the minimum
+ * rating of 1 and can't be imported.
+ *
+ * @throws HttpError 400 for ½★ ratings
+ */
+function parseRating(raw: string | undefined) {
+  const rating = (raw ?? "").trim();
+  if (rating !== "" && Number(rating) === 0.5) {
+    throw new HttpError(400, "½★ ratings are below the minimum rating of 1");
+  }
+  return rating;
+}
+
+/**
+ * Internal: Key of a title lookup (matches `withResolverCache`).
+ */
+function titleKey(record: Record<string, string>) {
+  const name = record["Name"] ?? "";
+  return `${name.toLowerCase()}|${parseYear(record["Year"]) ?? ""}`;
+}
+
+/**
+ * Internal: Parses a standard export file (ratings/reviews/watched) into records.
+ */
+function parseRecords(file: string, content: string) {
+  const records = toRecords(parseCsv(content));
+  if (records.length > MAX_ROWS_PER_FILE) {
+    throw new HttpError(
+      413,
+      `${file} has more than ${MAX_ROWS_PER_FILE} rows. Please split the import.`,
+    );
+  }
+  return records;
+}
+
+/**
+ * Parses a Letterboxd list export. These files contain a metadata section
+ * (`Date,Name,Tags,URL,Description`) followed by the items section
+ * (`Position,Name,Year,URL,Description`).
+ *
+ * @param content - Raw CSV text of a `lists/*.csv` file
+ * @returns `{ name, items }`, or `undefined` if the file is not a list export
+ */
+export function parseLetterboxdList(content: string) {
+  const rows = parseCsv(content);
+
+  const metaIndex = rows.findIndex(
+    (row) => row[0]?.trim() === "Date" && row.includes("Name"),
+  );
+  const itemsIndex = rows.findIndex(
+    (row, i) => i > metaIndex && row.includes("Name") && row.includes("Year"),
+  );
+
+  if (metaIndex === -1 || itemsIndex === -1) return undefined;
+
+  const [meta] = toRecords(rows.slice(metaIndex, itemsIndex));
+  const items = toRecords(rows.slice(itemsIndex));
+  const name = meta?.["Name"];
+
+  if (!name) return undefined;
+  if (items.length > MAX_ROWS_PER_FILE) {
+    throw new HttpError(
+      413,
+      `List "${name}" has more than ${MAX_ROWS_PER_FILE} items.`,
+    );
+  }
+
+  return { name: name.slice(0, 100), items };
+}
+
+/**
+ * Internal: Finds a list by exact name or creates it, so re-running an
+ * import adds to the same list instead of duplicating it.
+ */
+async function findOrCreateList(userId: string, name: string) {
+  const [existing] = await db
+    .select({ id: list.id, name: list.name })
+    .from(list)
+    .where(
+      and(eq(list.userId, userId), eq(list.name, name), isNull(list.deletedAt)),
+    );
+
+  if (existing) return { ...existing, created: false };
+
+  const slug = await generateSlug(name, "list", userId);
+  const created = await createList({ userId, name, slug });
+  return { id: created.id, name: created.name, created: true };
+}
+
+/**
+ * Imports a Letterboxd export for a user.
+ *
+ * Behavior:
+ * - Titles are matched to TMDB IDs through `resolver` (TMDB search by default)
+ * - `ratings.csv` / `reviews.csv` upsert through `addReview`; Letterboxd's
+ *   star ratings keep their value on the 0.5-step scale of `validateRating`
+ *   (1★–5★ in half steps), and ½★ ratings are skipped as below the minimum
+ * - `watched.csv` logs a first diary entry for titles never logged before
+ * - `lists/*.csv` are added to a list of the same name through `addListItem`
+ * - Re-running an import is safe: every write is idempotent
+ * - Every file is parsed up front; exports with more than `maxTitles`
+ *   distinct titles are rejected before any lookup
+ *
+ * @param userId - The importing user
+ * @param files - Contents of the export files
+ * @param resolver - Title resolver (defaults to TMDB search)
+ * @param maxTitles - Max distinct titles to resolve (defaults to `MAX_IMPORT_TITLES`)
+ * @returns Report of matched, skipped and ambiguous rows
+ * @throws HttpError 413 when a file or the export is too large
+ */
+export async function importLetterboxd(
+  userId: string,
+  files: LetterboxdExport,
+  resolver: TitleResolver = createTmdbResolver(),
+  maxTitles = MAX_IMPORT_TITLES,
+): Promise<ImportReport> {
+  const ratings = files.ratings
+    ? parseRecords("ratings.csv", files.ratings)
+    : [];
+  const reviews = files.reviews
+    ? parseRecords("reviews.csv", files.reviews)
+    : [];
+  const watched = files.watched
+    ? parseRecords("watched.csv", files.watched)
+    : [];
+  const listFiles = (files.lists ?? []).map(({ fileName, content }) => ({
+    file: `lists/${fileName}`,
+    fileName,
+    parsed: parseLetterboxdList(content),
+  }));
+
+  const titles = new Set(
+    [
+      ...ratings,
+      ...reviews,
+      ...watched,
+      ...listFiles.flatMap(({ parsed }) => parsed?.items ?? []),
+    ]
+      .filter((record) => record["Name"])
+      .map(titleKey),
+  );
+  if (titles.size > maxTitles) {
+    throw new HttpError(
+      413,
+      `This export has ${titles.size} titles; up to ${maxTitles} can be imported at once. Please split the import.`,
+    );
+  }
+
+  const cachedResolver = withResolverCache(resolver);
+  const rows: ImportRow[] = [];
+  const lists: ImportedList[] = [];
+
+  const importRow = async (
+    file: string,
+    index: number,
+    record: Record<string, string>,
+    apply: (match: TitleMatch) => Promise<unknown>,
+  ) => {
+    const name = record["Name"] ?? "";
+    const year = parseYear(record["Year"]);
+    const base = { file, row: index + 1, name, year };
+
+    if (!name) {
+      rows.push({ ...base, status: "skipped", reason: "Missing title" });
+      return;
+    }
+
+    let resolved;
+    try {
+      resolved = await cachedResolver.resolve({ name, year });
+    } catch (error) {
+      console.error("Title lookup failed during import", { name, year, error });
+      rows.push({ ...base, status: "skipped", reason: "Title lookup failed" });
+      return;
+    }
+
+    if (resolved.status === "not_found") {
+      rows.push({
+        ...base,
+        status: "skipped",
+        reason: "No matching title found",
+      });
+      return;
+    }
+
+    if (resolved.status === "ambiguous") {
+      rows.push({
+        ...base,
+        status: "ambiguous",
+        candidates: resolved.candidates,
+      });
+      return;
+    }
+
+    const { match } = resolved;
+    try {
+      await addMediaToDB(
+        {
+          id: match.mediaId,
+          title: match.title,
+          posterPath: match.posterPath,
+          backdropPath: match.backdropPath,
+          releaseDate: match.releaseDate,
+          slug: null,
+        },
+        match.mediaType,
+      );
+      await apply(match);
+      rows.push({ ...base, status: "matched", mediaId: match.mediaId });
+    } catch (error) {
+      rows.push({
+        ...base,
+        status: "skipped",
+        mediaId: match.mediaId,
+        reason:
+          error instanceof HttpError && error.status < 500
+            ? error.publicMessage
+            : "Failed to import row",
+      });
+    }
+  };
+
+  for (const [i, record] of ratings.entries()) {
+    await importRow("ratings.csv", i, record, (match) =>
+      addReview({
+        userId,
+        mediaType: match.mediaType,
+        mediaId: match.mediaId,
+        rating: parseRating(record["Rating"]),
+      }),
+    );
+  }
+
+  for (const [i, record] of reviews.entries()) {
+    await importRow("reviews.csv", i, record, async (match) => {
+      const rating = parseRating(record["Rating"]);
+      const review = record["Review"] ?? "";
+
+      if (rating) {
+        return addReview({
+          userId,
+          mediaType: match.mediaType,
+          mediaId: match.mediaId,
+          rating,
+          review,
+        });
+      }
+
+      // Text-only reviews can only attach to an existing rating
+      const updated = await updateReviewText(
+        userId,
+        match.mediaType,
+        match.mediaId,
+        review,
+      );
+      if (!updated) {
+        throw new HttpError(400, "Reviews without a rating can't be imported");
+      }
+      return updated;
+    });
+  }
+
+  for (const [i, record] of watched.entries()) {
+    await importRow("watched.csv", i, record, (match) =>
+      ensureDiaryEntry(
+        db,
+        userId,
+        match.mediaType,
+        match.mediaId,
+        parseDate(record["Date"]),
+      ),
+    );
+  }
+
+  for (const { file, fileName, parsed } of listFiles) {
+    if (!parsed) {
+      rows.push({
+        file,
+        row: 0,
+        name: fileName,
+        year: null,
+        status: "skipped",
+        reason: "Not a Letterboxd list export",
+      });
+      continue;
+    }
+
+    const target = await findOrCreateList(userId, parsed.name);
+    lists.push({
+      file,
+      listId: target.id,
+      name: target.name,
+      created: target.created,
+    });
+
+    for (const [i, record] of parsed.items.entries()) {
+      await importRow(file, i, record, (match) =>
+        addListItem({
+          userId,
+          listId: target.id,
+          mediaType: match.mediaType,
+          movieId: match.mediaType === "movie" ? match.mediaId : null,
+          seriesId: match.mediaType === "tv" ? match.mediaId : null,
+        }),
+      );
+    }
+  }
+
+  const summary = { matched: 0, skipped: 0, ambiguous: 0 };
+  for (const row of rows) summary[row.status]++;
+
+  return { summary, lists, rows };
+}
@@ -0,0 +1,99 @@
+import { db } from "@/drizzle";
+import { movieReview, tvReview, watchlistItem } from "@/drizzle/schema";
+import { toPriorityName } from "@/lib/watchlist-priority";
+import { getListMemberships, type MediaRef } from "@/services/v1/lists";
+import { sql } from "drizzle-orm";
+
+type StateRow = {
+  media_type: "movie" | "tv";
+  media_id: number;
+  has_review: boolean;
+  liked: boolean | null;
+  watched: boolean | null;
+  rating: string | null;
+  review: string | null;
+  watchlist_item_id: number | null;
+  priority: number | null;
+};
+
+/**
+ * Retrieves the user's library state for many titles at once: review
+ * (rating, liked, watched), watchlist entry and list membership.
+ *
+ * Reviews and watchlist entries are resolved in one query against the
+ * requested pairs; list membership in a second (see `getListMemberships`).
+ *
+ * @param userId - The current user's ID
+ * @param media - `(mediaType, mediaId)` pairs to look up
+ * @returns One entry per requested pair, in request order:
+ *   `{ mediaType, mediaId, review: { liked, watched, review, rating } | null,
+ *   watchlist: { watchlistItemId, priority } | null, lists }`
+ */
+export async function getLibraryState(userId: string, media: MediaRef[]) {
+  if (media.length === 0) return [];
+
+  const refs = sql.join(
+    media.map(
+      ({ mediaType, mediaId }) => sql`(${mediaType}::text, ${mediaId}::bigint)`,
+    ),
+    sql`, `,
+  );
+
+  const [rows, memberships] = await Promise.all([
+    db.execute<StateRow>(sql`
+      SELECT
+        m.media_type,
+        m.media_id::float8 AS media_id,
+        COALESCE(${movieReview.userId}, ${tvReview.userId}) IS NOT NULL AS has_review,
+        COALESCE(${movieReview.liked}, ${tvReview.liked}) AS liked,
+        COALESCE(${movieReview.watched}, ${tvReview.watched}) AS watched,
+        COALESCE(${movieReview.rating}, ${tvReview.rating})::text AS rating,
+        COALESCE(${movieReview.review}, ${tvReview.review}) AS review,
+        ${watchlistItem.id}::float8 AS watchlist_item_id,
+        ${watchlistItem.priority} AS priority
+      FROM (VALUES ${refs}) AS m(media_type, media_id)
+      LEFT JOIN ${movieReview}
+        ON m.media_type = 'movie'
+        AND ${movieReview.movieId} = m.media_id
+        AND ${movieReview.userId} = ${userId}
+      LEFT JOIN ${tvReview}
+        ON m.media_type = 'tv'
+        AND ${tvReview.seriesId} = m.media_id
+        AND ${tvReview.userId} = ${userId}
+      LEFT JOIN ${watchlistItem}
+        ON ${watchlistItem.userId} = ${userId}
+        AND ${watchlistItem.mediaType} = m.media_type
+        AND COALESCE(${watchlistItem.movieId}, ${watchlistItem.seriesId}) = m.media_id
+    `),
+    getListMemberships(userId, media),
+  ]);
+
+  const byMedia = new Map(
+    rows.map((row) => [`${row.media_type}:${row.media_id}`, row]),
+  );
+
+  return memberships.map(({ mediaType, mediaId, lists }) => {
+    const row = byMedia.get(`${mediaType}:${mediaId}`);
+
+    return {
+      mediaType,
+      mediaId,
+      review: row?.has_review
+        ? {
+            liked: row.liked ?? false,
+            watched: row.watched ?? false,
+            review: row.review,
+            rating: row.rating,
+          }
+        : null,
+      watchlist:
+        row?.watchlist_item_id != null
+          ? {
+              watchlistItemId: row.watchlist_item_id,
+              priority: toPriorityName(row.priority ?? 0),
+            }
+          : null,
+      lists,
+    };
+  });
+}
@@ -0,0 +1,111 @@
+import { db } from "@/drizzle";
+import { list, listLikes, listSaves, listView } from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { and, count, countDistinct, eq, gte, sql } from "drizzle-orm";
+
+type DailyRow = {
+  day: string;
+  unique_views: number;
+  likes: number;
+  saves: number;
+};
+
+// A viewer is a signed-in user or, for anonymous visitors, a hashed IP
+const viewerKey = sql`COALESCE(${listView.userId}, ${listView.ipAddress})`;
+
+/**
+ * Retrieves engagement analytics for a list over the last `days` days
+ * (UTC calendar days, today included).
+ *
+ * Ownership must be verified by the caller (see `authorizeRole`).
+ *
+ * @param listId - The list ID
+ * @param days - Number of days to cover (1–365)
+ * @returns `{ range, totals, audience, daily }` where `daily` has one entry per
+ *   day (including days without activity)
+ */
+export async function getListAnalytics(listId: number, days: number) {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const start = new Date(today.getTime() - (days - 1) * 86_400_000);
+
+  const from = start.toISOString().slice(0, 10);
+  const to = today.toISOString().slice(0, 10);
+
+  const [listRecord] = await db
+    .select({ likeCount: list.likeCount, saveCount: list.saveCount })
+    .from(list)
+    .where(eq(list.id, listId));
+
+  if (!listRecord) {
+    throw new HttpError(404, "List not found");
+  }
+
+  const daily: DailyRow[] = await db.execute(sql`
+    SELECT
+      to_char(d.day, 'YYYY-MM-DD') AS day,
+      COALESCE(v.unique_views, 0)::int AS unique_views,
+      COALESCE(l.likes, 0)::int AS likes,
+      COALESCE(s.saves, 0)::int AS saves
+    FROM generate_series(${from}::date, ${to}::date, interval '1 day') AS d(day)
+    LEFT JOIN (
+      SELECT (${listView.createdAt} AT TIME ZONE 'UTC')::date AS day,
+        COUNT(DISTINCT ${viewerKey}) AS unique_views
+      FROM ${listView}
+      WHERE ${listView.listId} = ${listId} AND ${listView.createdAt} >= ${start}
+      GROUP BY 1
+    ) v ON v.day = d.day
+    LEFT JOIN (
+      SELECT (${listLikes.createdAt} AT TIME ZONE 'UTC')::date AS day,
+        COUNT(*) AS likes
+      FROM ${listLikes}
+      WHERE ${listLikes.listId} = ${listId} AND ${listLikes.createdAt} >= ${start}
+      GROUP BY 1
+    ) l ON l.day = d.day
+    LEFT JOIN (
+      SELECT (${listSaves.createdAt} AT TIME ZONE 'UTC')::date AS day,
+        COUNT(*) AS saves
+      FROM ${listSaves}
+      WHERE ${listSaves.listId} = ${listId} AND ${listSaves.createdAt} >= ${start}
+      GROUP BY 1
+    ) s ON s.day = d.day
+    ORDER BY d.day
+  `);
+
+  const [views] = await db
+    .select({
+      views: count(listView.id),
+      uniqueViewers: countDistinct(viewerKey),
+      signedInViews: count(listView.userId),
+    })
+    .from(listView)
+    .where(and(eq(listView.listId, listId), gte(listView.createdAt, start)));
+
+  const totalViews = views?.views ?? 0;
+  const signedInViews = views?.signedInViews ?? 0;
+  const anonymousViews = totalViews - signedInViews;
+
+  return {
+    range: { from, to, days },
+    totals: {
+      views: totalViews,
+      uniqueViewers: views?.uniqueViewers ?? 0,
+      likes: daily.reduce((sum, row) => sum + row.likes, 0),
+      saves: daily.reduce((sum, row) => sum + row.saves, 0),
+      allTimeLikes: listRecord.likeCount,
+      allTimeSaves: listRecord.saveCount,
+    },
+    audience: {
+      signedInViews,
+      anonymousViews,
+      signedInShare: totalViews ? signedInViews / totalViews : 0,
+      anonymousShare: totalViews ? anonymousViews / totalViews : 0,
+    },
+    daily: daily.map((row) => ({
+      date: row.day,
+      uniqueViews: row.unique_views,
+      likes: row.likes,
+      saves: row.saves,
+    })),
+  };
+}
@@ -0,0 +1,368 @@
+import { db, type Transaction } from "@/drizzle";
+import { list, listItem, movie, tv } from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import type { MediaRef } from "@/services/v1/lists";
+import { recordActivity } from "@/services/v1/activity";
+import { getTopPositions } from "@/services/v1/list-order";
+import { publishLibraryChange, toMediaRef } from "@/services/v1/realtime";
+import { and, eq, inArray } from "drizzle-orm";
+
+export const MAX_BULK_ITEMS = 500;
+
+export type BulkItemStatus =
+  "created" | "duplicate" | "not_found" | "removed" | "moved";
+
+type ListItemRow = typeof listItem.$inferSelect;
+
+/**
+ * Internal: Key identifying a title, shared by movie/tv rows and refs.
+ */
+function mediaKey(mediaType: string, mediaId: number | null) {
+  return `${mediaType}:${mediaId}`;
+}
+
+function itemKey(item: ListItemRow) {
+  return mediaKey(item.mediaType, item.movieId ?? item.seriesId);
+}
+
+/**
+ * Internal: Refreshes `updatedAt` on every touched list in one statement,
+ * which also locks the rows so concurrent edits are serialized.
+ */
+async function touchLists(trx: Transaction, listIds: number[]) {
+  await trx
+    .update(list)
+    .set({ updatedAt: new Date() })
+    .where(inArray(list.id, [...new Set(listIds)]));
+}
+
+/**
+ * Internal: Returns the media keys already present on a list.
+ */
+async function getListMediaKeys(trx: Transaction, listId: number) {
+  const items = await trx
+    .select()
+    .from(listItem)
+    .where(eq(listItem.listId, listId));
+
+  return new Set(items.map(itemKey));
+}
+
+/**
+ * Internal: Loads the requested items that belong to `listId`, keyed by ID.
+ */
+async function getItemsById(
+  trx: Transaction,
+  listId: number,
+  listItemIds: number[],
+) {
+  if (listItemIds.length === 0) return new Map<number, ListItemRow>();
+
+  const items = await trx
+    .select()
+    .from(listItem)
+    .where(and(eq(listItem.listId, listId), inArray(listItem.id, listItemIds)));
+
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+/**
+ * Internal: Clears a list's cover when it points at one of the removed items.
+ */
+async function clearCover(
+  trx: Transaction,
+  listId: number,
+  listItemIds: number[],
+) {
+  if (listItemIds.length === 0) return;
+
+  await trx
+    .update(list)
+    .set({ coverItemId: null })
+    .where(and(eq(list.id, listId), inArray(list.coverItemId, listItemIds)));
+}
+
+/**
+ * Adds many titles to a list in one transaction.
+ * New items go to the top, in request order.
+ *
+ * @param userId - The user adding the items (recorded as `addedBy`)
+ * @param listId - The list (editor access must be verified by the caller)
+ * @param media - `(mediaType, mediaId)` pairs to add
+ * @returns Per-title results: `{ mediaType, mediaId, status, listItemId }`
+ *   where status is "created", "duplicate" (already on the list, or repeated
+ *   in the request) or "not_found" (unknown title)
+ */
+export async function addListItems(
+  userId: string,
+  listId: number,
+  media: MediaRef[],
+) {
+  return db.transaction(async (trx) => {
+    await touchLists(trx, [listId]);
+
+    const movieIds = media
+      .filter((ref) => ref.mediaType === "movie")
+      .map((ref) => ref.mediaId);
+    const seriesIds = media
+      .filter((ref) => ref.mediaType === "tv")
+      .map((ref) => ref.mediaId);
+
+    const [movies, series, existing] = await Promise.all([
+      movieIds.length > 0
+        ? trx
+            .select({ id: movie.id })
+            .from(movie)
+            .where(inArray(movie.id, movieIds))
+        : [],
+      seriesIds.length > 0
+        ? trx.select({ id: tv.id }).from(tv).where(inArray(tv.id, seriesIds))
+        : [],
+      trx.select().from(listItem).where(eq(listItem.listId, listId)),
+    ]);
+
+    const known = new Set([
+      ...movies.map((row) => mediaKey("movie", row.id)),
+      ...series.map((row) => mediaKey("tv", row.id)),
+    ]);
+    const existingByKey = new Map(
+      existing.map((item) => [itemKey(item), item]),
+    );
+    const seen = new Set<string>();
+
+    const toInsert: MediaRef[] = [];
+    for (const ref of media) {
+      const key = mediaKey(ref.mediaType, ref.mediaId);
+      if (known.has(key) && !existingByKey.has(key) && !seen.has(key)) {
+        toInsert.push(ref);
+      }
+      seen.add(key);
+    }
+
+    const positions = await getTopPositions(trx, listId, toInsert.length);
+    const inserted =
+      toInsert.length > 0
+        ? await trx
+            .insert(listItem)
+            .values(
+              toInsert.map((ref, index) => ({
+                userId,
+                listId,
+                mediaType: ref.mediaType,
+                movieId: ref.mediaType === "movie" ? ref.mediaId : null,
+                seriesId: ref.mediaType === "tv" ? ref.mediaId : null,
+                position: positions[index],
+              })),
+            )
+            .returning()
+        : [];
+
+    await recordActivity(
+      trx,
+      inserted.map((item) => ({
+        userId,
+        type: "list_item_added" as const,
+        listId,
+        movieId: item.movieId,
+        seriesId: item.seriesId,
+      })),
+    );
+    await publishLibraryChange(trx, userId, inserted.map(toMediaRef));
+
+    const insertedByKey = new Map(
+      inserted.map((item) => [itemKey(item), item]),
+    );
+    const reported = new Set<string>();
+
+    return media.map(({ mediaType, mediaId }) => {
+      const key = mediaKey(mediaType, mediaId);
+      const created = insertedByKey.get(key);
+      const duplicate = existingByKey.get(key) ?? created;
+
+      let status: BulkItemStatus = "not_found";
+      if (created && !reported.has(key)) status = "created";
+      else if (duplicate) status = "duplicate";
+      reported.add(key);
+
+      return {
+        mediaType,
+        mediaId,
+        status,
+        listItemId: (created ?? duplicate)?.id ?? null,
+      };
+    });
+  });
+}
+
+/**
+ * Removes many items from a list in one transaction.
+ *
+ * @param userId - The user removing the items
+ * @param listId - The list (editor access must be verified by the caller)
+ * @param listItemIds - Items to remove
+ * @returns Per-item results: `{ listItemId, status }` where status is
+ *   "removed" or "not_found" (not on this list)
+ */
+export async function removeListItems(
+  userId: string,
+  listId: number,
+  listItemIds: number[],
+) {
+  return db.transaction(async (trx) => {
+    await touchLists(trx, [listId]);
+
+    const items = await getItemsById(trx, listId, listItemIds);
+    const removedIds = [...items.keys()];
+
+    if (removedIds.length > 0) {
+      await trx.delete(listItem).where(inArray(listItem.id, removedIds));
+      await clearCover(trx, listId, removedIds);
+      await publishLibraryChange(
+        trx,
+        userId,
+        [...items.values()].map(toMediaRef),
+      );
+    }
+
+    const reported = new Set<number>();
+    return listItemIds.map((listItemId) => {
+      const removed = items.has(listItemId) && !reported.has(listItemId);
+      reported.add(listItemId);
+      return {
+        listItemId,
+        status: (removed ? "removed" : "not_found") as BulkItemStatus,
+      };
+    });
+  });
+}
+
+/**
+ * Moves or copies items from one list to another in one transaction.
+ * Transferred items go to the top of the target list, in request order.
+ *
+ * - Move: items keep their ID, notes and who added them. Items whose title is
+ *   already on the target are removed from the source and reported as
+ *   "duplicate".
+ * - Copy: new items are recorded as added by `userId`, so, as with forks,
+ *   notes (written by whoever added the source item) are not copied. Titles
+ *   already on the target are reported as "duplicate" and left alone.
+ *
+ * @param userId - The user making the change
+ * @param fromListId - Source list (editor access must be verified by the caller)
+ * @param toListId - Target list (editor access must be verified by the caller)
+ * @param listItemIds - Source items to transfer
+ * @param mode - "move" | "copy"
+ * @returns Per-item results: `{ listItemId, status, targetListItemId }` where
+ *   status is "moved"/"created", "duplicate" or "not_found" (not on the source)
+ * @throws HttpError 400 if the lists are the same
+ */
+export async function transferListItems(
+  userId: string,
+  fromListId: number,
+  toListId: number,
+  listItemIds: number[],
+  mode: "move" | "copy",
+) {
+  if (fromListId === toListId) {
+    throw new HttpError(400, "Source and target lists must differ");
+  }
+
+  return db.transaction(async (trx) => {
+    await touchLists(trx, [fromListId, toListId]);
+
+    const [items, targetKeys] = await Promise.all([
+      getItemsById(trx, fromListId, listItemIds),
+      getListMediaKeys(trx, toListId),
+    ]);
+
+    const uniqueIds = [...new Set(listItemIds)].filter((id) => items.has(id));
+    const transfers = uniqueIds
+      .map((id) => items.get(id)!)
+      .filter((item) => {
+        const key = itemKey(item);
+        if (targetKeys.has(key)) return false;
+        targetKeys.add(key);
+        return true;
+      });
+    const duplicates = uniqueIds.filter(
+      (id) => !transfers.some((item) => item.id === id),
+    );
+
+    const positions = await getTopPositions(trx, toListId, transfers.length);
+    const targetIds = new Map<number, number>();
+
+    if (mode === "move") {
+      for (const [index, item] of transfers.entries()) {
+        await trx
+          .update(listItem)
+          .set({ listId: toListId, position: positions[index] })
+          .where(eq(listItem.id, item.id));
+        targetIds.set(item.id, item.id);
+      }
+
+      if (duplicates.length > 0) {
+        await trx.delete(listItem).where(inArray(listItem.id, duplicates));
+      }
+
+      await clearCover(trx, fromListId, uniqueIds);
+    } else if (transfers.length > 0) {
+      const copies = await trx
+        .insert(listItem)
+        .values(
+          transfers.map((item, index) => ({
+            userId,
+            listId: toListId,
+            mediaType: item.mediaType,
+            movieId: item.movieId,
+            seriesId: item.seriesId,
+            position: positions[index],
+          })),
+        )
+        .returning();
+
+      const copyIds = new Map(copies.map((copy) => [itemKey(copy), copy.id]));
+      for (const item of transfers) {
+        targetIds.set(item.id, copyIds.get(itemKey(item))!);
+      }
+
+      await recordActivity(
+        trx,
+        transfers.map((item) => ({
+          userId,
+          type: "list_item_added" as const,
+          listId: toListId,
+          movieId: item.movieId,
+          seriesId: item.seriesId,
+        })),
+      );
+    }
+
+    await publishLibraryChange(
+      trx,
+      userId,
+      uniqueIds.map((id) => toMediaRef(items.get(id)!)),
+    );
+
+    const reported = new Set<number>();
+    return listItemIds.map((listItemId) => {
+      const first = !reported.has(listItemId);
+      reported.add(listItemId);
+
+      let status: BulkItemStatus = "not_found";
+      if (items.has(listItemId)) {
+        status =
+          first && targetIds.has(listItemId)
+            ? mode === "move"
+              ? "moved"
+              : "created"
+            : "duplicate";
+      }
+
+      return {
+        listItemId,
+        status,
+        targetListItemId: targetIds.get(listItemId) ?? null,
+      };
+    });
+  });
+}
@@ -0,0 +1,254 @@
+import { db } from "@/drizzle";
+import { list, listCollaborator, user } from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { and, asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+
+export type CollaboratorRole = "editor" | "viewer";
+
+/**
+ * Retrieves a list's collaborators (pending and accepted), oldest first.
+ * Access must be verified by the caller (see `authorizeRole`).
+ *
+ * @param listId - The list ID
+ * @returns Array of `{ userId, username, role, status, createdAt, respondedAt }`
+ */
+export async function getCollaborators(listId: number) {
+  return db
+    .select({
+      userId: listCollaborator.userId,
+      username: user.username,
+      role: listCollaborator.role,
+      status: listCollaborator.status,
+      createdAt: listCollaborator.createdAt,
+      respondedAt: listCollaborator.respondedAt,
+    })
+    .from(listCollaborator)
+    .innerJoin(user, eq(listCollaborator.userId, user.id))
+    .where(eq(listCollaborator.listId, listId))
+    .orderBy(asc(listCollaborator.createdAt));
+}
+
+/**
+ * Invites a user to collaborate on a list (idempotent).
+ * Re-inviting an existing collaborator updates their role.
+ * Owner access must be verified by the caller.
+ *
+ * @param listId - The list ID
+ * @param ownerId - The inviting owner
+ * @param username - Username of the invitee
+ * @param role - "editor" | "viewer"
+ * @returns `{ created: boolean, collaborator }`
+ * @throws HttpError 404 if the user does not exist, 400 when inviting yourself
+ */
+export async function inviteCollaborator(
+  listId: number,
+  ownerId: string,
+  username: string,
+  role: CollaboratorRole,
+) {
+  const [invitee] = await db
+    .select({ id: user.id, username: user.username })
+    .from(user)
+    .where(eq(user.username, username));
+
+  if (!invitee) {
+    throw new HttpError(404, "User not found");
+  }
+  if (invitee.id === ownerId) {
+    throw new HttpError(400, "You can't invite yourself to your own list");
+  }
+
+  return db.transaction(async (trx) => {
+    const [existing] = await trx
+      .select()
+      .from(listCollaborator)
+      .where(
+        and(
+          eq(listCollaborator.listId, listId),
+          eq(listCollaborator.userId, invitee.id),
+        ),
+      );
+
+    if (existing) {
+      const [updated] =
+        existing.role === role
+          ? [existing]
+          : await trx
+              .update(listCollaborator)
+              .set({ role })
+              .where(eq(listCollaborator.id, existing.id))
+              .returning();
+
+      return {
+        created: false,
+        collaborator: { ...updated!, username: invitee.username },
+      };
+    }
+
+    const [inserted] = await trx
+      .insert(listCollaborator)
+      .values({ listId, userId: invitee.id, role, invitedBy: ownerId })
+      .returning();
+
+    return {
+      created: true,
+      collaborator: { ...inserted!, username: invitee.username },
+    };
+  });
+}
+
+/**
+ * Changes a collaborator's role. Owner access must be verified by the caller.
+ *
+ * @param listId - The list ID
+ * @param userId - The collaborator
+ * @param role - New role
+ * @returns The updated row, or `undefined` if the user is not a collaborator
+ */
+export async function updateCollaboratorRole(
+  listId: number,
+  userId: string,
+  role: CollaboratorRole,
+) {
+  const [result] = await db
+    .update(listCollaborator)
+    .set({ role })
+    .where(
+      and(
+        eq(listCollaborator.listId, listId),
+        eq(listCollaborator.userId, userId),
+      ),
+    )
+    .returning();
+
+  return result;
+}
+
+/**
+ * Removes a collaborator or revokes a pending invite.
+ *
+ * @param listId - The list ID
+ * @param userId - The collaborator to remove
+ * @returns Whether a row was removed
+ */
+export async function removeCollaborator(listId: number, userId: string) {
+  const deleted = await db
+    .delete(listCollaborator)
+    .where(
+      and(
+        eq(listCollaborator.listId, listId),
+        eq(listCollaborator.userId, userId),
+      ),
+    )
+    .returning({ id: listCollaborator.id });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Retrieves the user's pending list invites, newest first.
+ *
+ * @param userId - The invitee
+ * @returns Array of `{ listId, listName, listSlug, ownerUsername, role, createdAt }`
+ */
+export async function getInvites(userId: string) {
+  return db
+    .select({
+      listId: list.id,
+      listName: list.name,
+      listSlug: list.slug,
+      ownerUsername: user.username,
+      role: listCollaborator.role,
+      createdAt: listCollaborator.createdAt,
+    })
+    .from(listCollaborator)
+    .innerJoin(list, eq(listCollaborator.listId, list.id))
+    .innerJoin(user, eq(list.userId, user.id))
+    .where(
+      and(
+        eq(listCollaborator.userId, userId),
+        eq(listCollaborator.status, "pending"),
+        isNull(list.deletedAt),
+      ),
+    )
+    .orderBy(desc(listCollaborator.createdAt));
+}
+
+/**
+ * Accepts or declines a pending invite. Declining removes the invite.
+ * Invites to trashed lists are treated as missing.
+ *
+ * @param userId - The invitee
+ * @param listId - The list the invite is for
+ * @param accept - Whether to accept
+ * @returns The accepted collaborator row, `null` when declined, or
+ *   `undefined` if there was no pending invite
+ */
+export async function respondToInvite(
+  userId: string,
+  listId: number,
+  accept: boolean,
+) {
+  const pending = and(
+    eq(listCollaborator.listId, listId),
+    eq(listCollaborator.userId, userId),
+    eq(listCollaborator.status, "pending"),
+    inArray(
+      listCollaborator.listId,
+      db
+        .select({ id: list.id })
+        .from(list)
+        .where(and(eq(list.id, listId), isNull(list.deletedAt))),
+    ),
+  );
+
+  if (!accept) {
+    const deleted = await db
+      .delete(listCollaborator)
+      .where(pending)
+      .returning({ id: listCollaborator.id });
+    return deleted.length > 0 ? null : undefined;
+  }
+
+  const [result] = await db
+    .update(listCollaborator)
+    .set({ status: "accepted", respondedAt: new Date() })
+    .where(pending)
+    .returning();
+
+  return result;
+}
+
+/**
+ * Retrieves lists the user collaborates on (accepted invites), most
+ * recently updated first.
+ *
+ * @param userId - The collaborator
+ * @returns Array of lists with a stable `type: "list"`, the owner's username and the user's role
+ */
+export async function getSharedLists(userId: string) {
+  const results = await db
+    .select({
+      list,
+      ownerUsername: user.username,
+      role: listCollaborator.role,
+    })
+    .from(listCollaborator)
+    .innerJoin(list, eq(listCollaborator.listId, list.id))
+    .innerJoin(user, eq(list.userId, user.id))
+    .where(
+      and(
+        eq(listCollaborator.userId, userId),
+        eq(listCollaborator.status, "accepted"),
+        isNull(list.deletedAt),
+      ),
+    )
+    .orderBy(desc(sql`COALESCE(${list.updatedAt}, ${list.createdAt})`));
+
+  return results.map((result) => ({
+    type: "list" as const,
+    ...result.list,
+    ownerUsername: result.ownerUsername,
+    role: result.role as CollaboratorRole,
+  }));
+}
@@ -0,0 +1,181 @@
+import { db, type Transaction } from "@/drizzle";
+import { list, listItem } from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { asc, desc, eq, inArray, min, sql } from "drizzle-orm";
+
+// Spacing between neighbouring positions after a rebalance
+const POSITION_GAP = 1024;
+
+// Below this spacing, midpoints lose precision and the list is rebalanced
+const MIN_POSITION_GAP = 1e-6;
+
+/**
+ * Sort order for list items: manual position first, then newest first
+ * (items that share a position, e.g. from before positions existed).
+ */
+export const listItemOrder = [asc(listItem.position), desc(listItem.createdAt)];
+
+/**
+ * Returns the position for an item added to the top of a list.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param listId - The list ID
+ * @returns A position smaller than every existing item's
+ */
+export async function getTopPosition(
+  trx: typeof db | Transaction,
+  listId: number,
+) {
+  const [position] = await getTopPositions(trx, listId, 1);
+  return position!;
+}
+
+/**
+ * Returns positions for `count` items added to the top of a list,
+ * in display order (the first position is the new top).
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param listId - The list ID
+ * @param count - Number of positions to allocate
+ * @returns Ascending positions, all smaller than every existing item's
+ */
+export async function getTopPositions(
+  trx: typeof db | Transaction,
+  listId: number,
+  count: number,
+) {
+  const [result] = await trx
+    .select({ first: min(listItem.position) })
+    .from(listItem)
+    .where(eq(listItem.listId, listId));
+
+  const top = result?.first == null ? 0 : result.first - POSITION_GAP;
+
+  return Array.from(
+    { length: count },
+    (_, index) => top - (count - 1 - index) * POSITION_GAP,
+  );
+}
+
+/**
+ * Internal: Refreshes the list's `updatedAt` (which also locks the row so
+ * concurrent reorders are serialized), then returns its items in display order.
+ */
+async function lockOrderedItems(trx: Transaction, listId: number) {
+  await trx
+    .update(list)
+    .set({ updatedAt: new Date() })
+    .where(eq(list.id, listId));
+
+  return trx
+    .select({ id: listItem.id, position: listItem.position })
+    .from(listItem)
+    .where(eq(listItem.listId, listId))
+    .orderBy(...listItemOrder);
+}
+
+/**
+ * Internal: Writes evenly spaced positions for the given item order
+ * in a single statement.
+ */
+async function writePositions(trx: Transaction, itemIds: number[]) {
+  if (itemIds.length === 0) return;
+
+  const cases = sql.join(
+    itemIds.map(
+      (id, index) =>
+        sql`WHEN ${id}::bigint THEN ${(index + 1) * POSITION_GAP}::float8`,
+    ),
+    sql` `,
+  );
+
+  await trx
+    .update(listItem)
+    .set({ position: sql`CASE ${listItem.id} ${cases} END` })
+    .where(inArray(listItem.id, itemIds));
+}
+
+/**
+ * Moves a list item to `index` (0-based, clamped to the list bounds).
+ *
+ * Only the moved row is written: it takes the midpoint between its new
+ * neighbours. The list is rebalanced only when neighbours are too close
+ * (or share a position), which keeps reorders cheap for long lists.
+ *
+ * @param listId - The list ID (editor access must be verified by the caller)
+ * @param listItemId - The item to move
+ * @param index - Target index in the list
+ */
+export async function moveListItem(
+  listId: number,
+  listItemId: number,
+  index: number,
+) {
+  await db.transaction(async (trx) => {
+    const items = await lockOrderedItems(trx, listId);
+
+    const from = items.findIndex((item) => item.id === listItemId);
+    if (from === -1) {
+      throw new HttpError(404, "List item not found");
+    }
+
+    const [moved] = items.splice(from, 1);
+    const to = Math.max(0, Math.min(index, items.length));
+    const prev = items[to - 1];
+    const next = items[to];
+
+    if (from === to) return;
+
+    if (prev && next && next.position - prev.position < MIN_POSITION_GAP) {
+      items.splice(to, 0, moved!);
+      await writePositions(
+        trx,
+        items.map((item) => item.id),
+      );
+      return;
+    }
+
+    const position =
+      prev && next
+        ? (prev.position + next.position) / 2
+        : prev
+          ? prev.position + POSITION_GAP
+          : next
+            ? next.position - POSITION_GAP
+            : 0;
+
+    await trx
+      .update(listItem)
+      .set({ position })
+      .where(eq(listItem.id, listItemId));
+  });
+}
+
+/**
+ * Replaces the order of a list's items in one call.
+ *
+ * @param listId - The list ID (editor access must be verified by the caller)
+ * @param listItemIds - Every item ID of the list, in the desired order
+ * @throws HttpError 400 if the IDs are not exactly the list's items
+ */
+export async function setListOrder(listId: number, listItemIds: number[]) {
+  await db.transaction(async (trx) => {
+    const items = await lockOrderedItems(trx, listId);
+
+    const current = new Set(items.map((item) => item.id));
+    const requested = new Set(listItemIds);
+
+    if (
+      requested.size !== listItemIds.length ||
+      requested.size !== current.size ||
+      listItemIds.some((id) => !current.has(id))
+    ) {
+      throw new HttpError(
+        400,
+        "Order must include every item of the list exactly once",
+      );
+    }
+
+    await writePositions(trx, listItemIds);
+  });
+}
@@ -1,5 +1,5 @@
 import type { Session, User } from "better-auth";
-import { db } from "@/drizzle";
+import { db, type Transaction } from "@/drizzle";
 import {
   listLikes,
   list,
@@ -10,29 +10,169 @@ import {
   user,
   listView,
   listSlugHistory,
+  listCollaborator,
+  activity,
+  notification,
 } from "@/drizzle/schema";
-import { and, asc, desc, eq, gte, or, sql, count } from "drizzle-orm";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  ne,
+  or,
+  sql,
+  count,
+} from "drizzle-orm";
 import { getHashedValue } from "@/lib/utils";
 import { generateSlug } from "@/lib/slug";
+import slugify from "slugify";
+import { getRole, hasRole } from "@/lib/authorization";
 import { HttpError } from "@/lib/httpError";
+import { sanitizeText, validateTextLength } from "@/lib/sanitize-text";
+import { recordActivity } from "@/services/v1/activity";
+import { getTopPosition, listItemOrder } from "@/services/v1/list-order";
+import { publishLibraryChange, toMediaRef } from "@/services/v1/realtime";
+
+export type ListVisibility = "public" | "unlisted" | "private";
 
 type ListUpdates = {
-  name: string;
+  name?: string;
+  isRanked?: boolean;
+  description?: string | null;
+  coverItemId?: number | null;
+  visibility?: ListVisibility;
+};
+
+export type MediaRef = { mediaType: "movie" | "tv"; mediaId: number };
+
+export const LIST_DESCRIPTION_MAX_LENGTH = 2000;
+
+export const LIST_ITEM_NOTE_MAX_LENGTH = 1000;
+
+// Days a deleted list stays in the trash before it is purged
+export const LIST_TRASH_RETENTION_DAYS = 30;
+
+export type PopularityWindow = "day" | "week" | "month" | "all";
+
+// Views are weighted by recency within the window; likes/saves by list age
+const popularityWindows: Record<
+  PopularityWindow,
+  {
+    days: number | null;
+    halfLifeHours: number;
+    engagementHalfLifeHours: number;
+  }
+> = {
+  day: { days: 1, halfLifeHours: 6, engagementHalfLifeHours: 24 * 7 },
+  week: { days: 7, halfLifeHours: 48, engagementHalfLifeHours: 24 * 30 },
+  month: { days: 30, halfLifeHours: 24 * 7, engagementHalfLifeHours: 24 * 90 },
+  all: {
+    days: null,
+    halfLifeHours: 24 * 30,
+    engagementHalfLifeHours: 24 * 365,
+  },
 };
 
+const LIKE_WEIGHT = 3;
+const SAVE_WEIGHT = 5;
+
 type AddListItemResult = {
   created: boolean;
   item: typeof listItem.$inferSelect;
 };
 
+/**
+ * Internal: Sanitizes and validates markdown text (list descriptions,
+ * item notes). Empty text is stored as null.
+ */
+function normalizeText(raw: string | null, field: string, maxLength: number) {
+  if (raw === null) return null;
+
+  const text = sanitizeText(raw);
+  const error = validateTextLength(text, field, maxLength);
+  if (error) {
+    throw new HttpError(400, error);
+  }
+
+  return text === "" ? null : text;
+}
+
+/**
+ * Internal: Resolves cover backdrops (from the cover item's movie/tv
+ * `backdropPath`) for a set of lists.
+ *
+ * @param rows - Lists with a `coverItemId`
+ * @returns The same rows with `coverBackdropPath` (null when unset)
+ */
+async function withCoverBackdrops<T extends { coverItemId: number | null }>(
+  rows: T[],
+) {
+  const coverIds = rows
+    .map((row) => row.coverItemId)
+    .filter((id): id is number => id !== null);
+
+  const covers = new Map<number, string | null>();
+  if (coverIds.length > 0) {
+    const results = await db
+      .select({
+        id: listItem.id,
+        backdropPath: sql<
+          string | null
+        >`NULLIF(COALESCE(${movie.backdropPath}, ${tv.backdropPath}), '')`,
+      })
+      .from(listItem)
+      .leftJoin(movie, eq(listItem.movieId, movie.id))
+      .leftJoin(tv, eq(listItem.seriesId, tv.id))
+      .where(inArray(listItem.id, coverIds));
+
+    for (const result of results) covers.set(result.id, result.backdropPath);
+  }
+
+  return rows.map((row) => ({
+    ...row,
+    coverBackdropPath:
+      row.coverItemId !== null ? (covers.get(row.coverItemId) ?? null) : null,
+  }));
+}
+
 /**
  * Creates a list in the database.
+ * A provided `description` is sanitized and length-checked first.
+ * Records a "list_created" feed activity.
  *
  * @param data - The list data to insert
  * @returns The newly created list with a stable `type: "list"`
  */
 export async function createList(data: typeof list.$inferInsert) {
-  const [result] = await db.insert(list).values(data).returning();
+  const values =
+    data.description === undefined
+      ? data
+      : {
+          ...data,
+          description: normalizeText(
+            data.description,
+            "Description",
+            LIST_DESCRIPTION_MAX_LENGTH,
+          ),
+        };
+
+  const result = await db.transaction(async (trx) => {
+    const [inserted] = await trx.insert(list).values(values).returning();
+
+    if (inserted) {
+      await recordActivity(trx, [
+        { userId: inserted.userId, type: "list_created", listId: inserted.id },
+      ]);
+    }
+
+    return inserted;
+  });
   const formattedResults = { type: "list" as const, ...result };
   return formattedResults;
 }
@@ -41,29 +181,44 @@ export async function createList(data: typeof list.$inferInsert) {
  * Retrieves all lists belonging to a user, oldest first.
  *
  * @param userId - The user ID
- * @returns An array of lists with a stable `type: "list"`
+ * @param options - `publicOnly` restricts results to public lists
+ * @returns An array of lists with a stable `type: "list"` and `coverBackdropPath`
  */
-export async function getLists(userId: string) {
+export async function getLists(
+  userId: string,
+  options: { publicOnly?: boolean } = {},
+) {
   const results = await db
     .select()
     .from(list)
-    .where(eq(list.userId, userId))
+    .where(
+      and(
+        eq(list.userId, userId),
+        isNull(list.deletedAt),
+        options.publicOnly ? eq(list.visibility, "public") : undefined,
+      ),
+    )
     .orderBy(asc(list.createdAt));
 
-  const formattedResults = results.map((result) => ({
-    type: "list" as const,
-    ...result,
-  }));
+  const formattedResults = (await withCoverBackdrops(results)).map(
+    (result) => ({
+      type: "list" as const,
+      ...result,
+    }),
+  );
   return formattedResults;
 }
 
 /**
- * Retrieves all lists for a given username.
+ * Retrieves the lists for a given username that the viewer may see:
+ * every list for the owner, only public lists for everyone else
+ * (unlisted lists are reachable by link only).
  *
  * @param username - The user's username
+ * @param viewerId - Optional ID of the signed-in viewer
  * @returns An array of lists with a stable `type: "list"`
  */
-export async function getListsByUsername(username: string) {
+export async function getListsByUsername(username: string, viewerId?: string) {
   const [owner] = await db
     .select({ id: user.id })
     .from(user)
@@ -73,11 +228,12 @@ export async function getListsByUsername(username: string) {
     throw new HttpError(404, "User not found");
   }
 
-  return getLists(owner.id);
+  return getLists(owner.id, { publicOnly: owner.id !== viewerId });
 }
 
 /**
- * Updates list values (currently name/slug) if they have changed.
+ * Updates list values (name/slug, ranked mode, description, cover,
+ * visibility) if they have changed.
  * Also records slug history when renaming.
  *
  * @param userId - Owner of the list
@@ -94,24 +250,97 @@ export async function updateList(
     const [listRecord] = await trx
       .select()
       .from(list)
-      .where(and(eq(list.userId, userId), eq(list.id, listId)));
+      .where(
+        and(
+          eq(list.userId, userId),
+          eq(list.id, listId),
+          isNull(list.deletedAt),
+        ),
+      );
 
     if (!listRecord) {
       throw new HttpError(404, "List not found");
     }
 
+    const changes: Partial<typeof list.$inferInsert> = {};
+
     if (updates.name && updates.name !== listRecord.name) {
-      const oldSlug = listRecord.slug;
+      changes.name = updates.name;
 
-      await trx
-        .insert(listSlugHistory)
-        .values({ listId: listRecord.id, oldSlug });
+      // Keep the slug (e.g. case-only renames) or reclaim one this list used before
+      const baseSlug = slugify(updates.name, { lower: true, strict: true });
+      const previousSlugs = await trx
+        .select({ oldSlug: listSlugHistory.oldSlug })
+        .from(listSlugHistory)
+        .where(eq(listSlugHistory.listId, listRecord.id));
+
+      const slug =
+        baseSlug &&
+        (baseSlug === listRecord.slug ||
+          previousSlugs.some((row) => row.oldSlug === baseSlug))
+          ? baseSlug
+          : await generateSlug(updates.name, "list", userId);
 
-      const newSlug = await generateSlug(updates.name, "list", userId);
+      if (slug !== listRecord.slug) {
+        await trx
+          .insert(listSlugHistory)
+          .values({ listId: listRecord.id, oldSlug: listRecord.slug });
+
+        changes.slug = slug;
+      }
+    }
+
+    if (
+      updates.isRanked !== undefined &&
+      updates.isRanked !== listRecord.isRanked
+    ) {
+      changes.isRanked = updates.isRanked;
+    }
+
+    if (updates.description !== undefined) {
+      const description = normalizeText(
+        updates.description,
+        "Description",
+        LIST_DESCRIPTION_MAX_LENGTH,
+      );
+      if (description !== listRecord.description) {
+        changes.description = description;
+      }
+    }
 
+    if (
+      updates.coverItemId !== undefined &&
+      updates.coverItemId !== listRecord.coverItemId
+    ) {
+      if (updates.coverItemId !== null) {
+        const [coverItem] = await trx
+          .select({ id: listItem.id })
+          .from(listItem)
+          .where(
+            and(
+              eq(listItem.id, updates.coverItemId),
+              eq(listItem.listId, listId),
+            ),
+          );
+
+        if (!coverItem) {
+          throw new HttpError(400, "Cover must be an item on this list");
+        }
+      }
+      changes.coverItemId = updates.coverItemId;
+    }
+
+    if (
+      updates.visibility !== undefined &&
+      updates.visibility !== listRecord.visibility
+    ) {
+      changes.visibility = updates.visibility;
+    }
+
+    if (Object.keys(changes).length > 0) {
       const [updateResult] = await trx
         .update(list)
-        .set({ name: updates.name, slug: newSlug, updatedAt: new Date() })
+        .set({ ...changes, updatedAt: new Date() })
         .where(and(eq(list.userId, userId), eq(list.id, listId)))
         .returning();
 
@@ -123,79 +352,215 @@ export async function updateList(
     return listRecord;
   });
 
-  return { type: "list" as const, ...result };
+  const [withCover] = await withCoverBackdrops([result]);
+  return { type: "list" as const, ...withCover! };
 }
 
 /**
- * Deletes a user's list. Related rows should be deleted at the DB level.
+ * Deletes lists together with every row that references them
+ * (items, likes, saves, views, collaborators, feed activity, notifications
+ * and slug history).
+ * Forks of the deleted lists are detached and fork counts of their
+ * sources decremented.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param listIds - Lists to delete
+ * @returns The deleted list rows
+ */
+export async function purgeListRows(
+  trx: typeof db | Transaction,
+  listIds: number[],
+) {
+  if (listIds.length === 0) return [];
+
+  // Forks of these lists lose their source; sources lose a fork
+  await trx
+    .update(list)
+    .set({ forkedFromId: null })
+    .where(inArray(list.forkedFromId, listIds));
+
+  const sources = await trx
+    .select({ id: list.forkedFromId })
+    .from(list)
+    .where(and(inArray(list.id, listIds), isNotNull(list.forkedFromId)));
+
+  for (const source of sources) {
+    await trx
+      .update(list)
+      .set({ forkCount: sql`GREATEST(${list.forkCount} - 1, 0)` })
+      .where(eq(list.id, source.id!));
+  }
+
+  await trx.delete(listItem).where(inArray(listItem.listId, listIds));
+  await trx.delete(listLikes).where(inArray(listLikes.listId, listIds));
+  await trx.delete(listSaves).where(inArray(listSaves.listId, listIds));
+  await trx.delete(listView).where(inArray(listView.listId, listIds));
+  await trx
+    .delete(listCollaborator)
+    .where(inArray(listCollaborator.listId, listIds));
+  await trx.delete(activity).where(inArray(activity.listId, listIds));
+  await trx.delete(notification).where(inArray(notification.listId, listIds));
+  await trx
+    .delete(listSlugHistory)
+    .where(inArray(listSlugHistory.listId, listIds));
+
+  return trx.delete(list).where(inArray(list.id, listIds)).returning();
+}
+
+/**
+ * Moves a user's list to the trash. Trashed lists are hidden everywhere,
+ * can be restored for `LIST_TRASH_RETENTION_DAYS` days, and are then purged
+ * along with their items, likes, saves, views, collaborators and slug history.
  *
  * @param userId - Owner ID
  * @param listId - List ID
- * @returns The deleted list row (for confirmation)
+ * @returns The trashed list row with its `purgeAt` date
+ * @throws HttpError 404 if the list does not exist or is already trashed
  */
 export async function deleteList(userId: string, listId: number) {
-  const [listRecord] = await db
-    .select({ id: list.id })
-    .from(list)
-    .where(and(eq(list.userId, userId), eq(list.id, listId)));
+  const [deletedList] = await db
+    .update(list)
+    .set({ deletedAt: new Date() })
+    .where(
+      and(eq(list.userId, userId), eq(list.id, listId), isNull(list.deletedAt)),
+    )
+    .returning();
 
-  if (!listRecord) {
+  if (!deletedList) {
     throw new HttpError(404, "List not found");
   }
 
-  const [deletedList] = await db
-    .delete(list)
-    .where(and(eq(list.id, listId), eq(list.userId, userId)))
+  return withPurgeDate(deletedList);
+}
+
+/**
+ * Internal: Adds the date a trashed list will be purged.
+ */
+function withPurgeDate<T extends { deletedAt: Date | null }>(row: T) {
+  return {
+    type: "list" as const,
+    ...row,
+    purgeAt: row.deletedAt
+      ? new Date(
+          row.deletedAt.getTime() + LIST_TRASH_RETENTION_DAYS * 86_400_000,
+        )
+      : null,
+  };
+}
+
+/**
+ * Retrieves a user's trashed lists, most recently deleted first.
+ *
+ * @param userId - Owner ID
+ * @returns Trashed lists with their `purgeAt` date
+ */
+export async function getTrash(userId: string) {
+  const results = await db
+    .select()
+    .from(list)
+    .where(and(eq(list.userId, userId), isNotNull(list.deletedAt)))
+    .orderBy(desc(list.deletedAt));
+
+  return results.map(withPurgeDate);
+}
+
+/**
+ * Restores a list from the trash.
+ *
+ * @param userId - Owner ID
+ * @param listId - List ID
+ * @returns The restored list
+ * @throws HttpError 404 if the list is not in the user's trash
+ */
+export async function restoreList(userId: string, listId: number) {
+  const [restored] = await db
+    .update(list)
+    .set({ deletedAt: null })
+    .where(
+      and(
+        eq(list.userId, userId),
+        eq(list.id, listId),
+        isNotNull(list.deletedAt),
+      ),
+    )
     .returning();
 
-  if (!deletedList) {
-    throw new HttpError(500, "Failed to delete the list");
+  if (!restored) {
+    throw new HttpError(404, "List not found in trash");
   }
 
-  return deletedList;
+  return { type: "list" as const, ...restored };
+}
+
+/**
+ * Permanently deletes lists that have been in the trash longer than
+ * `LIST_TRASH_RETENTION_DAYS`, with every row that references them.
+ *
+ * @param now - Reference time (defaults to now)
+ * @returns Number of lists purged
+ */
+export async function purgeTrashedLists(now = new Date()) {
+  const cutoff = new Date(
+    now.getTime() - LIST_TRASH_RETENTION_DAYS * 86_400_000,
+  );
+
+  return db.transaction(async (trx) => {
+    const due = await trx
+      .select({ id: list.id })
+      .from(list)
+      .where(lte(list.deletedAt, cutoff))
+      .for("update");
+
+    const purged = await purgeListRows(
+      trx,
+      due.map((row) => row.id),
+    );
+
+    return purged.length;
+  });
 }
 
 /**
- * Adds a media item to a user's list (idempotent, with ownership checks).
+ * Adds a media item to a list (idempotent, with role checks).
  *
  * Behavior:
- * - Verifies the `listId` belongs to `userId` (authorization).
- * - If the same media already exists on the list, returns it with `created: false`.
+ * - Verifies `userId` is the owner or an editor of `listId` (authorization);
+ *   missing, trashed or inaccessible lists are not found.
+ * - If the same media already exists on the list (added by anyone),
+ *   returns it with `created: false`.
  * - Otherwise inserts and updates the list's `updatedAt`, returning `created: true`.
  *
  * @param data - List item insert payload (userId, listId, mediaType, movieId/seriesId)
  * @returns `{ created: boolean, item: listItem }`
+ * @throws HttpError 404 if the list is not found, 403 if the user may not edit it
  */
 export async function addListItem(
   data: typeof listItem.$inferInsert,
 ): Promise<AddListItemResult | undefined> {
   const { userId, listId, mediaType, movieId, seriesId } = data;
 
-  return db.transaction(async (trx) => {
-    // Verify ownership
-    const [owned] = await trx
-      .select({ id: list.id })
-      .from(list)
-      .where(and(eq(list.id, listId), eq(list.userId, userId)));
+  // Verify the user may edit the list
+  const access = await getRole("list", listId, userId);
 
-    if (!owned) {
-      throw new HttpError(
-        403,
-        "You do not have permission to modify this list",
-      );
-    }
+  if (!access?.role) {
+    // Outsiders treated the same as non-existent lists
+    throw new HttpError(404, "List not found");
+  }
 
+  if (!hasRole(access.role, "editor")) {
+    throw new HttpError(403, "You do not have permission to modify this list");
+  }
+
+  return db.transaction(async (trx) => {
     // Check if item already exists
     const whereExisting =
       mediaType === "movie"
         ? and(
-            eq(listItem.userId, userId),
             eq(listItem.listId, listId),
             eq(listItem.mediaType, "movie"),
             eq(listItem.movieId, movieId!),
           )
         : and(
-            eq(listItem.userId, userId),
             eq(listItem.listId, listId),
             eq(listItem.mediaType, "tv"),
             eq(listItem.seriesId, seriesId!),
@@ -208,7 +573,12 @@ export async function addListItem(
     }
 
     // Insert new item
-    const [inserted] = await trx.insert(listItem).values(data).returning();
+    // New items go to the top, matching the previous newest-first order
+    const position = await getTopPosition(trx, listId);
+    const [inserted] = await trx
+      .insert(listItem)
+      .values({ ...data, position })
+      .returning();
 
     // Refresh the list updatedAt field
     await trx
@@ -216,73 +586,174 @@ export async function addListItem(
       .set({ updatedAt: new Date() })
       .where(eq(list.id, listId));
 
+    await recordActivity(trx, [
+      { userId, type: "list_item_added", listId, movieId, seriesId },
+    ]);
+    await publishLibraryChange(trx, userId, [toMediaRef(data)]);
+
     return inserted ? { created: true, item: inserted } : undefined;
   });
 }
 
 /**
- * Retrieves the authenticated user's saved list item, if any, for a media.
+ * Retrieves, for each media, every list the user can add to (owned lists
+ * and lists they edit) that already contains it.
  *
  * @param userId - The current user's ID
- * @param mediaId - TMDB media ID
- * @param mediaType - "movie" | "tv"
- * @returns `{ listId, listItemId, mediaType, mediaId } | undefined`
+ * @param media - `(mediaType, mediaId)` pairs to look up
+ * @returns One entry per requested pair, in request order:
+ *   `{ mediaType, mediaId, lists: { listId, listName, listSlug, username, listItemId }[] }`
  */
-export async function getListItem(
-  userId: string,
-  mediaId: number,
-  mediaType: "movie" | "tv",
-) {
-  // Determine which field to query based on media type (typed narrowing)
-  const isMovie = mediaType === "movie";
+export async function getListMemberships(userId: string, media: MediaRef[]) {
+  const movieIds = media
+    .filter((ref) => ref.mediaType === "movie")
+    .map((ref) => ref.mediaId);
+  const seriesIds = media
+    .filter((ref) => ref.mediaType === "tv")
+    .map((ref) => ref.mediaId);
 
-  const [result] = await db
-    .select({
-      listId: listItem.listId,
-      listItemId: listItem.id,
-      mediaType: listItem.mediaType,
-      mediaId: isMovie ? listItem.movieId : listItem.seriesId,
-    })
-    .from(listItem)
+  const mediaFilters = [
+    movieIds.length > 0 ? inArray(listItem.movieId, movieIds) : undefined,
+    seriesIds.length > 0 ? inArray(listItem.seriesId, seriesIds) : undefined,
+  ].filter((filter) => filter !== undefined);
+
+  const rows =
+    mediaFilters.length === 0
+      ? []
+      : await db
+          .select({
+            listId: list.id,
+            listName: list.name,
+            listSlug: list.slug,
+            username: user.username,
+            listItemId: listItem.id,
+            movieId: listItem.movieId,
+            seriesId: listItem.seriesId,
+          })
+          .from(listItem)
+          .innerJoin(list, eq(listItem.listId, list.id))
+          .innerJoin(user, eq(list.userId, user.id))
+          .leftJoin(
+            listCollaborator,
+            and(
+              eq(listCollaborator.listId, list.id),
+              eq(listCollaborator.userId, userId),
+              eq(listCollaborator.status, "accepted"),
+              eq(listCollaborator.role, "editor"),
+            ),
+          )
+          .where(
+            and(
+              or(eq(list.userId, userId), isNotNull(listCollaborator.id)),
+              isNull(list.deletedAt),
+              or(...mediaFilters),
+            ),
+          )
+          .orderBy(asc(list.createdAt));
+
+  const byMedia = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const key = row.movieId ? `movie:${row.movieId}` : `tv:${row.seriesId}`;
+    byMedia.set(key, [...(byMedia.get(key) ?? []), row]);
+  }
+
+  return media.map(({ mediaType, mediaId }) => ({
+    mediaType,
+    mediaId,
+    lists: (byMedia.get(`${mediaType}:${mediaId}`) ?? []).map((row) => ({
+      listId: row.listId,
+      listName: row.listName,
+      listSlug: row.listSlug,
+      username: row.username,
+      listItemId: row.listItemId,
+    })),
+  }));
+}
+
+/**
+ * Internal: Finds a user's list by its current slug, falling back to the
+ * most recent list that previously used the slug.
+ *
+ * @param username - List owner's username
+ * @param slug - Current or previous list slug
+ * @returns `{ list, user }`, or `undefined` if no list matches
+ */
+async function findListBySlug(username: string, slug: string) {
+  const [current] = await db
+    .select({ list, user })
+    .from(list)
+    .innerJoin(user, eq(user.id, list.userId))
     .where(
       and(
-        eq(listItem.userId, userId),
-        isMovie
-          ? eq(listItem.movieId, mediaId)
-          : eq(listItem.seriesId, mediaId),
+        eq(user.username, username),
+        eq(list.slug, slug),
+        isNull(list.deletedAt),
       ),
     );
 
-  return result;
+  if (current) return current;
+
+  const [previous] = await db
+    .select({ list, user })
+    .from(listSlugHistory)
+    .innerJoin(list, eq(listSlugHistory.listId, list.id))
+    .innerJoin(user, eq(user.id, list.userId))
+    .where(
+      and(
+        eq(user.username, username),
+        eq(listSlugHistory.oldSlug, slug),
+        isNull(list.deletedAt),
+      ),
+    )
+    .orderBy(desc(listSlugHistory.createdAt))
+    .limit(1);
+
+  return previous;
 }
 
 /**
- * Returns public list data and viewer-specific flags
+ * Returns list data and viewer-specific flags
  * (like/save) when a session user is provided.
+ * Public and unlisted lists are readable by anyone with the link;
+ * private lists only by their owner and collaborators (others get a 404).
+ * `viewerRole` is the session user's role on the list, if any.
+ *
+ * `forkedFrom` attributes a fork to its source list (null when the list is not
+ * a fork, or the source is private).
+ * Slugs a list used before being renamed still resolve to it; `canonicalSlug`
+ * is the current slug so clients can replace outdated URLs.
  *
  * @param username - List owner's username
- * @param slug - List slug
+ * @param slug - Current or previous list slug
  * @param userSession - Optional authenticated user object
- * @returns `{ list, isLiked, isSaved, listItems }`
+ * @returns `{ list, canonicalSlug, isLiked, isSaved, viewerRole, forkedFrom, listItems }`
  */
 export async function getListData(
   username: string,
   slug: string,
   userSession: User | undefined,
 ) {
-  const [results] = await db
-    .select()
-    .from(list)
-    .innerJoin(user, eq(user.id, list.userId))
-    .where(and(eq(user.username, username), eq(list.slug, slug)));
+  const results = await findListBySlug(username, slug);
 
   if (!results) {
     throw new HttpError(404, "List not found");
   }
 
-  const { list: listResult } = results;
+  const access = await getRole("list", results.list.id, userSession?.id);
+  const viewerRole = access?.role ?? null;
+
+  // Private lists are only visible to members (indistinguishable from missing)
+  if (results.list.visibility === "private" && !viewerRole) {
+    throw new HttpError(404, "List not found");
+  }
 
-  const listItems = await getListItems(listResult.id);
+  const [listResult] = await withCoverBackdrops([results.list]);
+  if (!listResult) {
+    throw new HttpError(404, "List not found");
+  }
+
+  const listItems = await getListItems(listResult.id, listResult.isRanked);
+  const forkedFrom = await getForkSource(listResult.forkedFromId);
 
   if (userSession) {
     const isLiked = await getLikeStatus(userSession.id, listResult.id);
@@ -290,28 +761,64 @@ export async function getListData(
 
     return {
       list: { type: "list" as const, ...listResult },
+      canonicalSlug: listResult.slug,
       isLiked,
       isSaved,
+      viewerRole,
+      forkedFrom,
       listItems,
     };
   }
 
   return {
     list: { type: "list" as const, ...listResult },
+    canonicalSlug: listResult.slug,
     isLiked: false,
     isSaved: false,
+    viewerRole,
+    forkedFrom,
     listItems,
   };
 }
 
 /**
- * Internal: Retrieves all list items for a given list ID,
+ * Internal: Retrieves the attribution for a fork's source list.
+ *
+ * @param forkedFromId - The source list ID (if any)
+ * @returns `{ id, name, slug, username }`, or null if missing or private
+ */
+async function getForkSource(forkedFromId: number | null) {
+  if (!forkedFromId) return null;
+
+  const [source] = await db
+    .select({
+      id: list.id,
+      name: list.name,
+      slug: list.slug,
+      username: user.username,
+    })
+    .from(list)
+    .innerJoin(user, eq(user.id, list.userId))
+    .where(
+      and(
+        eq(list.id, forkedFromId),
+        ne(list.visibility, "private"),
+        isNull(list.deletedAt),
+      ),
+    );
+
+  return source ?? null;
+}
+
+/**
+ * Internal: Retrieves all list items for a given list ID in display order,
  * with unified fields across movie/TV via COALESCE/CASE.
  *
  * @param listId - The list ID
+ * @param isRanked - Whether to number items (`rank` starts at 1; otherwise null)
  * @returns Array of list item rows
  */
-async function getListItems(listId: number) {
+async function getListItems(listId: number, isRanked = false) {
   try {
     const results = await db
       .select({
@@ -320,7 +827,10 @@ async function getListItems(listId: number) {
         listItemId: listItem.id,
         title: sql<string>`COALESCE(${movie.title}, ${tv.title})`,
         posterPath: sql<string>`COALESCE(${movie.posterPath}, ${tv.posterPath})`,
+        note: listItem.note,
+        hasSpoilers: listItem.hasSpoilers,
         createdAt: listItem.createdAt,
+        addedBy: user.username,
         mediaType: sql<"movie" | "tv">`CASE
             WHEN ${movie.id} IS NOT NULL THEN 'movie'
             ELSE 'tv'
@@ -329,10 +839,14 @@ async function getListItems(listId: number) {
       .from(listItem)
       .leftJoin(movie, eq(listItem.movieId, movie.id))
       .leftJoin(tv, eq(listItem.seriesId, tv.id))
+      .leftJoin(user, eq(listItem.userId, user.id))
       .where(eq(listItem.listId, listId))
-      .orderBy(desc(listItem.createdAt));
+      .orderBy(...listItemOrder);
 
-    return results;
+    return results.map((result, index) => ({
+      ...result,
+      rank: isRanked ? index + 1 : null,
+    }));
   } catch (_error) {
     throw new HttpError(500, "Failed to get list items");
   }
@@ -393,19 +907,106 @@ async function getSaveStatus(userId: string, listId: number): Promise<boolean> {
 }
 
 /**
- * Deletes a list item if it belongs to the given user.
+ * Updates a list item's note and spoiler flag.
+ *
+ * - The caller must be the list's owner or an editor.
+ * - Notes are sanitized markdown (max 1000 characters); empty notes are cleared.
+ *
+ * @param userId - The user making the change
+ * @param listItemId - The list item to update
+ * @param updates - `note` (null clears it) and/or `hasSpoilers`
+ * @returns The updated row, or `undefined` if the item does not exist or the
+ *   user has no access to its list
+ * @throws HttpError 403 for viewers, 400 if the note is invalid
+ */
+export async function updateListItem(
+  userId: string,
+  listItemId: number,
+  updates: { note?: string | null; hasSpoilers?: boolean },
+) {
+  const [target] = await db
+    .select({ listId: listItem.listId })
+    .from(listItem)
+    .where(eq(listItem.id, listItemId));
+
+  if (!target) return undefined;
+
+  const access = await getRole("list", target.listId, userId);
+  if (!access?.role) return undefined;
+  if (!hasRole(access.role, "editor")) {
+    throw new HttpError(403, "You do not have permission to modify this list");
+  }
+
+  const changes: Partial<typeof listItem.$inferInsert> = {};
+
+  if (updates.note !== undefined) {
+    changes.note = normalizeText(
+      updates.note,
+      "Note",
+      LIST_ITEM_NOTE_MAX_LENGTH,
+    );
+  }
+  if (updates.hasSpoilers !== undefined) {
+    changes.hasSpoilers = updates.hasSpoilers;
+  }
+
+  return db.transaction(async (trx) => {
+    const [result] = await trx
+      .update(listItem)
+      .set(changes)
+      .where(eq(listItem.id, listItemId))
+      .returning();
+
+    await trx
+      .update(list)
+      .set({ updatedAt: new Date() })
+      .where(eq(list.id, target.listId));
+
+    return result;
+  });
+}
+
+/**
+ * Deletes a list item if the user may edit its list (owner or editor).
  *
- * @param userId - Owner of the item
+ * @param userId - The acting user
  * @param listItemId - Item ID to delete
- * @returns The deleted row, or undefined if not found
+ * @returns The deleted row, or undefined if not found (or not visible to the user)
+ * @throws HttpError 403 if the user is only a viewer of the list
  */
 export async function deleteListItem(userId: string, listItemId: number) {
-  const [result] = await db
-    .delete(listItem)
-    .where(and(eq(listItem.userId, userId), eq(listItem.id, listItemId)))
-    .returning();
+  const [target] = await db
+    .select({ listId: listItem.listId })
+    .from(listItem)
+    .where(eq(listItem.id, listItemId));
+
+  if (!target) return undefined;
+
+  const access = await getRole("list", target.listId, userId);
+  if (!access?.role) return undefined;
+  if (!hasRole(access.role, "editor")) {
+    throw new HttpError(403, "You do not have permission to modify this list");
+  }
 
-  return result;
+  return db.transaction(async (trx) => {
+    const [result] = await trx
+      .delete(listItem)
+      .where(eq(listItem.id, listItemId))
+      .returning();
+
+    if (result) {
+      // Drop the cover if it pointed at the removed item
+      await trx
+        .update(list)
+        .set({ coverItemId: null })
+        .where(
+          and(eq(list.id, result.listId), eq(list.coverItemId, listItemId)),
+        );
+      await publishLibraryChange(trx, userId, [toMediaRef(result)]);
+    }
+
+    return result;
+  });
 }
 
 /**
@@ -485,12 +1086,40 @@ export async function trackUniqueView(
 }
 
 /**
- * Retrieves popular lists ordered by total view count (all-time).
+ * Retrieves popular lists ranked by a time-decayed popularity score.
+ *
+ * Score = Σ(views in window, each halved every `halfLifeHours`)
+ *       + (likeCount × 3 + saveCount × 5), halved every `engagementHalfLifeHours`
+ *         of list age
+ *
+ * Lists without views in the window are still ranked (by likes/saves, then
+ * newest first), so new lists are not invisible. Only public lists are included.
  *
  * @param limit - Max number of lists to return (default 10)
- * @returns Array of `{ type: "list", ...list, viewCount }` ordered by `viewCount` desc
+ * @param window - "day" | "week" | "month" | "all" (default "week")
+ * @returns Array of `{ type: "list", ...list, viewCount, score }` ordered by `score` desc,
+ *   where `viewCount` is the number of views within the window
  */
-export async function getPopularLists(limit = 10) {
+export async function getPopularLists(
+  limit = 10,
+  window: PopularityWindow = "week",
+) {
+  const { days, halfLifeHours, engagementHalfLifeHours } =
+    popularityWindows[window];
+
+  const viewJoin = days
+    ? and(
+        eq(listView.listId, list.id),
+        gte(listView.createdAt, new Date(Date.now() - days * 86_400_000)),
+      )
+    : eq(listView.listId, list.id);
+
+  const score = sql<number>`
+    COALESCE(SUM(POWER(0.5, EXTRACT(EPOCH FROM (now() - ${listView.createdAt})) / (${halfLifeHours}::float8 * 3600))), 0)
+    + (${list.likeCount} * ${LIKE_WEIGHT}::float8 + ${list.saveCount} * ${SAVE_WEIGHT}::float8)
+      * POWER(0.5, EXTRACT(EPOCH FROM (now() - ${list.createdAt})) / (${engagementHalfLifeHours}::float8 * 3600))
+  `;
+
   const results = await db
     .select({
       id: list.id,
@@ -500,30 +1129,23 @@ export async function getPopularLists(limit = 10) {
       likeCount: list.likeCount,
       saveCount: list.saveCount,
       slug: list.slug,
+      description: list.description,
+      coverItemId: list.coverItemId,
       createdAt: list.createdAt,
       updatedAt: list.updatedAt,
       viewCount: count(listView.id).mapWith(Number),
+      score: score.mapWith(Number),
     })
-    .from(listView)
-    .innerJoin(list, eq(list.id, listView.listId))
+    .from(list)
     .innerJoin(user, eq(user.id, list.userId))
-    .groupBy(
-      list.id,
-      list.userId,
-      user.username,
-      list.name,
-      list.likeCount,
-      list.saveCount,
-      list.slug,
-      list.createdAt,
-      list.updatedAt,
-    )
-    .orderBy(desc(count(listView.id)))
+    .leftJoin(listView, viewJoin)
+    .where(and(eq(list.visibility, "public"), isNull(list.deletedAt)))
+    .groupBy(list.id, user.username)
+    .orderBy(desc(score), desc(list.createdAt))
     .limit(limit);
 
-  results.forEach((result) => {
-    result.viewCount = Math.floor(Math.random() * 5000);
-  });
-
-  return results.map((r) => ({ type: "list" as const, ...r }));
+  return (await withCoverBackdrops(results)).map((r) => ({
+    type: "list" as const,
+    ...r,
+  }));
 }
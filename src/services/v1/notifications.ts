@@ -0,0 +1,319 @@
+import { db, type Transaction } from "@/drizzle";
+import { list, notification, notificationMute, user } from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { publish, userTopic } from "@/lib/realtime";
+import { and, count, desc, eq, inArray, isNull, lt, sql } from "drizzle-orm";
+
+export const NOTIFICATION_TYPES = [
+  "list_liked",
+  "list_saved",
+  "followed",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/** Actors shown per group; the rest are summarized by `actorCount`. */
+const GROUP_SAMPLE_SIZE = 3;
+
+type NotificationEvent = {
+  userId: string;
+  actorId: string;
+  type: NotificationType;
+  listId?: number | null;
+};
+
+type NotificationPage = {
+  cursor?: string;
+  limit: number;
+};
+
+/**
+ * Notifies a user about something another user did. Call inside the
+ * transaction that performs the action so both commit together.
+ *
+ * - Acting on your own content produces no notification.
+ * - Nothing is stored when the recipient has muted the type.
+ * - Stored notifications are pushed to the recipient's open realtime streams.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param event - `{ userId (recipient), actorId, type, listId? }`
+ */
+export async function notify(
+  trx: typeof db | Transaction,
+  event: NotificationEvent,
+) {
+  if (event.userId === event.actorId) return;
+
+  const [muted] = await trx
+    .select({ type: notificationMute.type })
+    .from(notificationMute)
+    .where(
+      and(
+        eq(notificationMute.userId, event.userId),
+        eq(notificationMute.type, event.type),
+      ),
+    );
+
+  if (muted) return;
+
+  const [created] = await trx.insert(notification).values(event).returning();
+
+  if (created) {
+    await publish(trx, [
+      {
+        topic: userTopic(created.userId),
+        event: "notification",
+        data: {
+          id: created.id,
+          type: created.type,
+          listId: created.listId,
+          createdAt: created.createdAt,
+        },
+      },
+    ]);
+  }
+}
+
+/**
+ * Withdraws notifications for an action that was undone (e.g. an unlike),
+ * so repeated toggling doesn't pile up.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param event - `{ actorId, type }` plus `listId` and/or `userId` (recipient)
+ */
+export async function retractNotification(
+  trx: typeof db | Transaction,
+  event: Omit<NotificationEvent, "userId"> & { userId?: string },
+) {
+  await trx
+    .delete(notification)
+    .where(
+      and(
+        eq(notification.actorId, event.actorId),
+        eq(notification.type, event.type),
+        event.listId ? eq(notification.listId, event.listId) : undefined,
+        event.userId ? eq(notification.userId, event.userId) : undefined,
+      ),
+    );
+}
+
+/**
+ * Internal: Decodes a notifications cursor (the last group's `latestId`).
+ */
+function decodeCursor(cursor: string) {
+  const id = Number(cursor);
+
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    throw new HttpError(400, "Invalid cursor");
+  }
+
+  return id;
+}
+
+/**
+ * Retrieves a page of a user's notifications, newest first, grouped so that
+ * e.g. twelve likes on one list become a single "12 people liked your list"
+ * entry.
+ *
+ * - Notifications are grouped by type, list and read state, so new activity
+ *   on an already-read group shows up as a fresh unread group.
+ * - Each group carries up to three of its most recent actors, the number of
+ *   distinct actors, and the list it concerns (if any).
+ * - Pagination is keyset-based on each group's newest notification ID.
+ *
+ * @param userId - The recipient
+ * @param page - `{ cursor?, limit }` where `cursor` is the previous page's `nextCursor`
+ * @returns `{ groups, unreadCount, nextCursor }` (`nextCursor` is null on the last page)
+ * @throws HttpError 400 if the cursor is invalid
+ */
+export async function getNotifications(
+  userId: string,
+  { cursor, limit }: NotificationPage,
+) {
+  const before = cursor ? decodeCursor(cursor) : undefined;
+  const latestId = sql<number>`MAX(${notification.id})`.mapWith(Number);
+  const unread = sql<boolean>`${notification.readAt} IS NULL`;
+
+  const rows = await db
+    .select({
+      latestId,
+      type: sql<NotificationType>`${notification.type}`,
+      listId: notification.listId,
+      unread,
+      count: count(),
+      actorCount: sql<number>`COUNT(DISTINCT ${notification.actorId})`.mapWith(
+        Number,
+      ),
+      actorIds: sql<
+        string[]
+      >`(ARRAY_AGG(${notification.actorId} ORDER BY ${notification.id} DESC))[1:${sql.raw(String(GROUP_SAMPLE_SIZE))}]`,
+      latestAt: sql<Date>`MAX(${notification.createdAt})`.mapWith(
+        notification.createdAt,
+      ),
+    })
+    .from(notification)
+    .where(eq(notification.userId, userId))
+    .groupBy(notification.type, notification.listId, unread)
+    .having(before ? lt(latestId, before) : undefined)
+    .orderBy(desc(latestId))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+
+  const actorIds = [...new Set(page.flatMap((row) => row.actorIds))];
+  const listIds = [
+    ...new Set(page.flatMap((row) => (row.listId ? [row.listId] : []))),
+  ];
+
+  const [actors, lists, [unreadTotal]] = await Promise.all([
+    actorIds.length > 0
+      ? db
+          .select({
+            id: user.id,
+            username: user.username,
+            name: user.name,
+            image: user.image,
+          })
+          .from(user)
+          .where(inArray(user.id, actorIds))
+      : [],
+    listIds.length > 0
+      ? db
+          .select({
+            id: list.id,
+            name: list.name,
+            slug: list.slug,
+            username: user.username,
+          })
+          .from(list)
+          .innerJoin(user, eq(user.id, list.userId))
+          .where(and(inArray(list.id, listIds), isNull(list.deletedAt)))
+      : [],
+    db
+      .select({ value: count() })
+      .from(notification)
+      .where(and(eq(notification.userId, userId), isNull(notification.readAt))),
+  ]);
+
+  const actorsById = new Map(actors.map(({ id, ...actor }) => [id, actor]));
+  const listsById = new Map(lists.map((row) => [row.id, row]));
+
+  const groups = page.map(({ actorIds: ids, listId, ...group }) => ({
+    ...group,
+    list: listId ? (listsById.get(listId) ?? null) : null,
+    actors: ids.flatMap((id) => actorsById.get(id) ?? []),
+  }));
+
+  return {
+    groups,
+    unreadCount: unreadTotal?.value ?? 0,
+    nextCursor: hasMore && last ? String(last.latestId) : null,
+  };
+}
+
+/**
+ * Marks one notification group (as returned by `getNotifications`) as read.
+ *
+ * @param userId - The recipient
+ * @param group - `{ type, listId }` identifying the group (`listId` null for follows)
+ * @returns `{ updated }` — number of notifications marked read
+ */
+export async function markGroupRead(
+  userId: string,
+  { type, listId }: { type: NotificationType; listId: number | null },
+) {
+  const updated = await db
+    .update(notification)
+    .set({ readAt: new Date() })
+    .where(
+      and(
+        eq(notification.userId, userId),
+        eq(notification.type, type),
+        listId === null
+          ? isNull(notification.listId)
+          : eq(notification.listId, listId),
+        isNull(notification.readAt),
+      ),
+    )
+    .returning({ id: notification.id });
+
+  return { updated: updated.length };
+}
+
+/**
+ * Marks all of a user's notifications as read.
+ *
+ * @param userId - The recipient
+ * @returns `{ updated }` — number of notifications marked read
+ */
+export async function markAllRead(userId: string) {
+  const updated = await db
+    .update(notification)
+    .set({ readAt: new Date() })
+    .where(and(eq(notification.userId, userId), isNull(notification.readAt)))
+    .returning({ id: notification.id });
+
+  return { updated: updated.length };
+}
+
+/**
+ * Retrieves a user's notification preferences.
+ *
+ * @param userId - The user
+ * @returns Map of notification type to whether it is enabled
+ */
+export async function getNotificationPreferences(userId: string) {
+  const mutes = await db
+    .select({ type: notificationMute.type })
+    .from(notificationMute)
+    .where(eq(notificationMute.userId, userId));
+
+  const muted = new Set(mutes.map(({ type }) => type));
+
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, !muted.has(type)]),
+  ) as Record<NotificationType, boolean>;
+}
+
+/**
+ * Enables or mutes notification types. Types not mentioned are left as they are.
+ * Muting stops new notifications of that type; existing ones are kept.
+ *
+ * @param userId - The user
+ * @param preferences - Map of notification type to whether it is enabled
+ * @returns The full, updated preferences
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  preferences: Partial<Record<NotificationType, boolean>>,
+) {
+  const entries = Object.entries(preferences) as [NotificationType, boolean][];
+  const mute = entries.filter(([, enabled]) => !enabled).map(([type]) => type);
+  const unmute = entries.filter(([, enabled]) => enabled).map(([type]) => type);
+
+  await db.transaction(async (trx) => {
+    if (mute.length > 0) {
+      await trx
+        .insert(notificationMute)
+        .values(mute.map((type) => ({ userId, type })))
+        .onConflictDoNothing({
+          target: [notificationMute.userId, notificationMute.type],
+        });
+    }
+
+    if (unmute.length > 0) {
+      await trx
+        .delete(notificationMute)
+        .where(
+          and(
+            eq(notificationMute.userId, userId),
+            inArray(notificationMute.type, unmute),
+          ),
+        );
+    }
+  });
+
+  return getNotificationPreferences(userId);
+}
@@ -0,0 +1,349 @@
+import { db, type Transaction } from "@/drizzle";
+import {
+  list,
+  movie,
+  movieReview,
+  profile,
+  profileFavorite,
+  tv,
+  tvReview,
+  user,
+} from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { sanitizeText, validateTextLength } from "@/lib/sanitize-text";
+import { getFollowStats } from "@/services/v1/follows";
+import { and, asc, count, desc, eq, inArray, isNull } from "drizzle-orm";
+
+export const PROFILE_BIO_MAX_LENGTH = 500;
+export const PROFILE_LOCATION_MAX_LENGTH = 100;
+export const PROFILE_LINK_MAX_LENGTH = 200;
+export const MAX_PROFILE_LINKS = 5;
+export const MAX_PROFILE_FAVORITES = 4;
+
+const RECENT_RATINGS_LIMIT = 5;
+
+export type ProfileUpdates = {
+  bio?: string | null;
+  location?: string | null;
+  links?: string[];
+  favorites?: number[];
+};
+
+/**
+ * Internal: Sanitizes an optional profile text field.
+ * Empty text clears the field.
+ *
+ * @throws HttpError 400 when the text is too long
+ */
+function normalizeField(
+  raw: string | null,
+  field: string,
+  maxLength: number,
+  singleLine = false,
+) {
+  if (raw === null) return null;
+
+  let text = sanitizeText(raw);
+  if (singleLine) text = text.replace(/\s+/g, " ");
+
+  const error = validateTextLength(text, field, maxLength);
+  if (error) {
+    throw new HttpError(400, error);
+  }
+
+  return text === "" ? null : text;
+}
+
+/**
+ * Internal: Validates profile links (http/https URLs), dropping duplicates.
+ *
+ * @throws HttpError 400 when a link is invalid or there are too many
+ */
+function normalizeLinks(raw: string[]) {
+  const links = [...new Set(raw.map((link) => link.trim()).filter(Boolean))];
+
+  if (links.length > MAX_PROFILE_LINKS) {
+    throw new HttpError(
+      400,
+      `Profiles can have up to ${MAX_PROFILE_LINKS} links`,
+    );
+  }
+
+  for (const link of links) {
+    let url: URL | undefined;
+    try {
+      url = new URL(link);
+    } catch {
+      url = undefined;
+    }
+
+    if (
+      !url ||
+      !["http:", "https:"].includes(url.protocol) ||
+      link.length > PROFILE_LINK_MAX_LENGTH
+    ) {
+      throw new HttpError(400, `Invalid link: ${link.slice(0, 50)}`);
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Internal: Loads a user's editable profile fields and pinned favorites.
+ */
+async function getProfileFields(trx: typeof db | Transaction, userId: string) {
+  const [[fields], favorites] = await Promise.all([
+    trx
+      .select({
+        bio: profile.bio,
+        location: profile.location,
+        links: profile.links,
+      })
+      .from(profile)
+      .where(eq(profile.userId, userId)),
+    trx
+      .select({
+        position: profileFavorite.position,
+        movieId: movie.id,
+        title: movie.title,
+        posterPath: movie.posterPath,
+        releaseDate: movie.releaseDate,
+        slug: movie.slug,
+      })
+      .from(profileFavorite)
+      .innerJoin(movie, eq(movie.id, profileFavorite.movieId))
+      .where(eq(profileFavorite.userId, userId))
+      .orderBy(asc(profileFavorite.position)),
+  ]);
+
+  return {
+    bio: fields?.bio ?? null,
+    location: fields?.location ?? null,
+    links: fields?.links ?? [],
+    favorites,
+  };
+}
+
+/**
+ * Internal: Retrieves a user's most recent ratings across films and series.
+ */
+async function getRecentRatings(userId: string) {
+  const [movies, series] = await Promise.all([
+    db
+      .select({
+        mediaId: movie.id,
+        title: movie.title,
+        posterPath: movie.posterPath,
+        slug: movie.slug,
+        rating: movieReview.rating,
+        liked: movieReview.liked,
+        updatedAt: movieReview.updatedAt,
+      })
+      .from(movieReview)
+      .innerJoin(movie, eq(movie.id, movieReview.movieId))
+      .where(eq(movieReview.userId, userId))
+      .orderBy(desc(movieReview.updatedAt))
+      .limit(RECENT_RATINGS_LIMIT),
+    db
+      .select({
+        mediaId: tv.id,
+        title: tv.title,
+        posterPath: tv.posterPath,
+        slug: tv.slug,
+        rating: tvReview.rating,
+        liked: tvReview.liked,
+        updatedAt: tvReview.updatedAt,
+      })
+      .from(tvReview)
+      .innerJoin(tv, eq(tv.id, tvReview.seriesId))
+      .where(eq(tvReview.userId, userId))
+      .orderBy(desc(tvReview.updatedAt))
+      .limit(RECENT_RATINGS_LIMIT),
+  ]);
+
+  return [
+    ...movies.map((row) => ({ mediaType: "movie" as const, ...row })),
+    ...series.map((row) => ({ mediaType: "tv" as const, ...row })),
+  ]
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    .slice(0, RECENT_RATINGS_LIMIT);
+}
+
+/**
+ * Retrieves a user's public profile: identity, bio, pinned favorites,
+ * counts and a few recent ratings.
+ *
+ * - `stats.lists` counts public lists, or every live list when the viewer
+ *   is the profile owner
+ * - `stats.filmsWatched` / `stats.seriesWatched` count titles marked watched
+ *
+ * @param username - The user's username
+ * @param viewerId - Optional ID of the signed-in viewer
+ * @returns `{ username, displayUsername, name, image, joinedAt, bio, location,
+ *   links, favorites, stats, isFollowing, recentRatings }`
+ * @throws HttpError 404 if the user does not exist
+ */
+export async function getProfile(username: string, viewerId?: string) {
+  const [owner] = await db
+    .select({
+      id: user.id,
+      username: user.username,
+      displayUsername: user.displayUsername,
+      name: user.name,
+      image: user.image,
+      joinedAt: user.createdAt,
+    })
+    .from(user)
+    .where(eq(user.username, username));
+
+  if (!owner) {
+    throw new HttpError(404, "User not found");
+  }
+
+  const { id: userId, ...identity } = owner;
+
+  const [
+    fields,
+    follows,
+    [films],
+    [series],
+    [movieRatings],
+    [tvRatings],
+    [lists],
+    recentRatings,
+  ] = await Promise.all([
+    getProfileFields(db, userId),
+    getFollowStats(username, viewerId),
+    db
+      .select({ value: count() })
+      .from(movieReview)
+      .where(
+        and(eq(movieReview.userId, userId), eq(movieReview.watched, true)),
+      ),
+    db
+      .select({ value: count() })
+      .from(tvReview)
+      .where(and(eq(tvReview.userId, userId), eq(tvReview.watched, true))),
+    db
+      .select({ value: count() })
+      .from(movieReview)
+      .where(eq(movieReview.userId, userId)),
+    db
+      .select({ value: count() })
+      .from(tvReview)
+      .where(eq(tvReview.userId, userId)),
+    db
+      .select({ value: count() })
+      .from(list)
+      .where(
+        and(
+          eq(list.userId, userId),
+          isNull(list.deletedAt),
+          userId !== viewerId ? eq(list.visibility, "public") : undefined,
+        ),
+      ),
+    getRecentRatings(userId),
+  ]);
+
+  return {
+    ...identity,
+    ...fields,
+    stats: {
+      filmsWatched: films?.value ?? 0,
+      seriesWatched: series?.value ?? 0,
+      ratings: (movieRatings?.value ?? 0) + (tvRatings?.value ?? 0),
+      lists: lists?.value ?? 0,
+      followers: follows.followerCount,
+      following: follows.followingCount,
+    },
+    isFollowing: follows.isFollowing,
+    recentRatings,
+  };
+}
+
+/**
+ * Updates the user's profile. Fields left out are unchanged; `null` or empty
+ * text clears bio/location.
+ *
+ * - Bio is sanitized like other user text (max `PROFILE_BIO_MAX_LENGTH`)
+ * - Location is a single line (max `PROFILE_LOCATION_MAX_LENGTH`)
+ * - Links must be http(s) URLs (max `MAX_PROFILE_LINKS`)
+ * - `favorites` replaces the pinned films in order (max
+ *   `MAX_PROFILE_FAVORITES`); every film must already be known locally
+ *
+ * @param userId - The profile owner
+ * @param updates - Fields to update
+ * @returns `{ bio, location, links, favorites }`
+ * @throws HttpError 400 on invalid input or unknown films
+ */
+export async function updateProfile(userId: string, updates: ProfileUpdates) {
+  const changes: Partial<typeof profile.$inferInsert> = {};
+
+  if (updates.bio !== undefined) {
+    changes.bio = normalizeField(updates.bio, "Bio", PROFILE_BIO_MAX_LENGTH);
+  }
+  if (updates.location !== undefined) {
+    changes.location = normalizeField(
+      updates.location,
+      "Location",
+      PROFILE_LOCATION_MAX_LENGTH,
+      true,
+    );
+  }
+  if (updates.links !== undefined) {
+    changes.links = normalizeLinks(updates.links);
+  }
+
+  const favorites = updates.favorites;
+  if (favorites !== undefined) {
+    if (favorites.length > MAX_PROFILE_FAVORITES) {
+      throw new HttpError(
+        400,
+        `Pick up to ${MAX_PROFILE_FAVORITES} favorite films`,
+      );
+    }
+    if (new Set(favorites).size !== favorites.length) {
+      throw new HttpError(400, "Favorite films must be unique");
+    }
+  }
+
+  return db.transaction(async (trx) => {
+    await trx
+      .insert(profile)
+      .values({ userId, ...changes, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: profile.userId,
+        set: { ...changes, updatedAt: new Date() },
+      });
+
+    if (favorites !== undefined) {
+      if (favorites.length > 0) {
+        const known = await trx
+          .select({ id: movie.id })
+          .from(movie)
+          .where(inArray(movie.id, favorites));
+
+        if (known.length !== favorites.length) {
+          throw new HttpError(400, "Unknown film in favorites");
+        }
+      }
+
+      await trx
+        .delete(profileFavorite)
+        .where(eq(profileFavorite.userId, userId));
+
+      if (favorites.length > 0) {
+        await trx.insert(profileFavorite).values(
+          favorites.map((movieId, index) => ({
+            userId,
+            movieId,
+            position: index + 1,
+          })),
+        );
+      }
+    }
+
+    return getProfileFields(trx, userId);
+  });
+}
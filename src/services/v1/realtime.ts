@@ -0,0 +1,104 @@
+import { db, type Transaction } from "@/drizzle";
+import { list } from "@/drizzle/schema";
+import { getRole } from "@/lib/authorization";
+import { HttpError } from "@/lib/httpError";
+import {
+  listTopic,
+  publish,
+  userTopic,
+  type RealtimeEvent,
+} from "@/lib/realtime";
+import type { MediaRef } from "@/services/v1/lists";
+import { and, eq, isNull } from "drizzle-orm";
+
+// NOTIFY payloads must stay under 8000 bytes; a ref is at most ~45 bytes
+const LIBRARY_REFS_PER_EVENT = 100;
+
+/**
+ * Resolves the realtime topics a user may subscribe to: their own events,
+ * plus live counts for the list page they are viewing.
+ *
+ * @param userId - The subscriber
+ * @param listId - Optional list being viewed
+ * @returns Topic names
+ * @throws HttpError 404 if the list does not exist or is private to the user
+ */
+export async function getRealtimeTopics(userId: string, listId?: number) {
+  const topics = [userTopic(userId)];
+  if (listId === undefined) return topics;
+
+  const [target] = await db
+    .select({ visibility: list.visibility })
+    .from(list)
+    .where(and(eq(list.id, listId), isNull(list.deletedAt)));
+
+  if (
+    !target ||
+    (target.visibility === "private" &&
+      !(await getRole("list", listId, userId))?.role)
+  ) {
+    throw new HttpError(404, "List not found");
+  }
+
+  return [...topics, listTopic(listId)];
+}
+
+/**
+ * Builds the media reference of a row keyed by `movieId` / `seriesId`.
+ */
+export function toMediaRef(row: {
+  movieId?: number | null;
+  seriesId?: number | null;
+}): MediaRef {
+  return row.movieId
+    ? { mediaType: "movie", mediaId: row.movieId }
+    : { mediaType: "tv", mediaId: row.seriesId! };
+}
+
+/**
+ * Tells the user's other open tabs that their library state (review,
+ * watchlist or list membership) changed for some titles, so they can
+ * refetch it from `POST /library/state`. Large changes (e.g. bulk list
+ * edits) are split over several events to fit the NOTIFY payload limit.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param userId - The library owner
+ * @param media - Titles whose state changed
+ */
+export async function publishLibraryChange(
+  trx: typeof db | Transaction,
+  userId: string,
+  media: MediaRef[],
+) {
+  const events: RealtimeEvent[] = [];
+  for (let i = 0; i < media.length; i += LIBRARY_REFS_PER_EVENT) {
+    events.push({
+      topic: userTopic(userId),
+      event: "library",
+      data: { media: media.slice(i, i + LIBRARY_REFS_PER_EVENT) },
+    });
+  }
+
+  await publish(trx, events);
+}
+
+/**
+ * Pushes a list's current like/save counts to everyone viewing it.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param listId - The list
+ * @param counts - `{ likeCount, saveCount }`
+ */
+export async function publishListCounts(
+  trx: typeof db | Transaction,
+  listId: number,
+  counts: { likeCount: number; saveCount: number },
+) {
+  await publish(trx, [
+    {
+      topic: listTopic(listId),
+      event: "list_counts",
+      data: { listId, ...counts },
+    },
+  ]);
+}
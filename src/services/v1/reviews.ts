@@ -2,9 +2,15 @@ import { db } from "@/drizzle";
 import { movie, movieReview, tv, tvReview } from "@/drizzle/schema";
 import { getReviewTables } from "@/lib/utils";
 import { validateRating } from "@/lib/validate-rating";
+import { sanitizeText, validateTextLength } from "@/lib/sanitize-text";
 import type { Review } from "@/types/review";
 import { and, avg, count, eq } from "drizzle-orm";
 import { HttpError } from "@/lib/httpError";
+import { recordActivity } from "@/services/v1/activity";
+import { publishLibraryChange } from "@/services/v1/realtime";
+import { removeMediaFromWatchlist } from "@/services/v1/watchlist";
+
+export const REVIEW_MAX_LENGTH = 5000;
 
 /**
  * Retrieves a single user's review for a specific media item.
@@ -40,7 +46,7 @@ export async function getReview(
  * merged into a single array.
  *
  * @param userId - The user whose reviews to fetch
- * @returns `Array<{ mediaId, mediaType, title, posterPath, rating, createdAt }>`
+ * @returns `Array<{ mediaId, mediaType, title, posterPath, rating, review, createdAt }>`
  */
 export async function getAllReviews(userId: string) {
   const moviePromise = db
@@ -50,6 +56,7 @@ export async function getAllReviews(userId: string) {
       title: movie.title,
       posterPath: movie.posterPath,
       rating: movieReview.rating,
+      review: movieReview.review,
       createdAt: movieReview.createdAt,
     })
     .from(movie)
@@ -63,6 +70,7 @@ export async function getAllReviews(userId: string) {
       title: tv.title,
       posterPath: tv.posterPath,
       rating: tvReview.rating,
+      review: tvReview.review,
       createdAt: tvReview.createdAt,
     })
     .from(tv)
@@ -107,17 +115,43 @@ type AddReview = {
   mediaType: "movie" | "tv";
   mediaId: number;
   rating: string;
+  review?: string | null;
+  removeFromWatchlist?: boolean;
 };
 
+/**
+ * Sanitizes and validates review text.
+ * Empty text (after normalization) is stored as `null`.
+ *
+ * @param raw - Untrusted review text
+ * @returns The normalized review text, or `null` when empty
+ * @throws HttpError (400) when the text exceeds `REVIEW_MAX_LENGTH`
+ */
+function normalizeReviewText(raw: string | null) {
+  if (raw === null) return null;
+
+  const text = sanitizeText(raw);
+  const error = validateTextLength(text, "Review", REVIEW_MAX_LENGTH);
+  if (error) {
+    throw new HttpError(400, error);
+  }
+
+  return text === "" ? null : text;
+}
+
 /**
  * Creates or updates a review for a media item (upsert).
  *
  * Validation & behavior:
  * - Validates rating with `validateRating` (throws 400 on failure)
+ * - Sanitizes optional review text (throws 400 when too long)
  * - Inserts a new review with sane defaults (`liked=false`, `watched=true`, `review=null`)
- * - On conflict (same user + media), updates `rating` and `updatedAt`
+ * - On conflict (same user + media), updates `rating` and `updatedAt`;
+ *   review text is only overwritten when `review` is provided
+ * - Optionally removes the title from the user's watchlist in the same transaction
+ * - Records a feed activity when the rating or review text changes
  *
- * @param data - `{ userId, mediaType, mediaId, rating }`
+ * @param data - `{ userId, mediaType, mediaId, rating, review?, removeFromWatchlist? }`
  * @returns The inserted/updated review row
  */
 export async function addReview(data: AddReview) {
@@ -132,24 +166,111 @@ export async function addReview(data: AddReview) {
     throw new HttpError(400, error);
   }
 
-  const [result] = await db
-    .insert(table)
-    .values({
-      userId,
-      mediaType,
-      [idColName]: mediaId,
-      rating,
-      liked: false,
-      watched: true,
-      review: null,
-    })
-    .onConflictDoUpdate({
-      target: [table.userId, idCol],
-      set: { rating, updatedAt: new Date() },
-    })
-    .returning();
+  const review =
+    data.review === undefined ? null : normalizeReviewText(data.review);
 
-  return result;
+  return db.transaction(async (trx) => {
+    const [previous] = await trx
+      .select({ rating: table.rating, review: table.review })
+      .from(table)
+      .where(and(eq(table.userId, userId), eq(idCol, mediaId)));
+
+    const [result] = await trx
+      .insert(table)
+      .values({
+        userId,
+        mediaType,
+        [idColName]: mediaId,
+        rating,
+        liked: false,
+        watched: true,
+        review,
+      })
+      .onConflictDoUpdate({
+        target: [table.userId, idCol],
+        set: {
+          rating,
+          ...(data.review !== undefined && { review }),
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    if (data.removeFromWatchlist) {
+      await removeMediaFromWatchlist(trx, userId, mediaType, mediaId);
+    }
+
+    const reviewChanged = !!review && review !== previous?.review;
+    const ratingChanged =
+      !previous || Number(previous.rating) !== Number(rating);
+
+    if (reviewChanged || ratingChanged) {
+      await recordActivity(trx, [
+        {
+          userId,
+          type: reviewChanged ? "review" : "rating",
+          [idColName]: mediaId,
+          rating,
+        },
+      ]);
+    }
+
+    await publishLibraryChange(trx, userId, [{ mediaType, mediaId }]);
+
+    return result;
+  });
+}
+
+/**
+ * Updates only the review text of an existing review.
+ * Records a feed activity when new review text is written.
+ *
+ * @param userId - The author of the review
+ * @param mediaType - "movie" | "tv"
+ * @param mediaId - TMDB media ID
+ * @param rawReview - New review text (`null` or empty clears it)
+ * @returns The updated review row, or `undefined` if no review exists
+ */
+export async function updateReviewText(
+  userId: string,
+  mediaType: "movie" | "tv",
+  mediaId: number,
+  rawReview: string | null,
+) {
+  const tablesMap = getReviewTables();
+  const { table, idCol, idColName } = tablesMap[mediaType];
+
+  const review = normalizeReviewText(rawReview);
+
+  return db.transaction(async (trx) => {
+    const [previous] = await trx
+      .select({ review: table.review })
+      .from(table)
+      .where(and(eq(table.userId, userId), eq(idCol, mediaId)));
+
+    const [result] = await trx
+      .update(table)
+      .set({ review, updatedAt: new Date() })
+      .where(and(eq(table.userId, userId), eq(idCol, mediaId)))
+      .returning();
+
+    if (result && review && review !== previous?.review) {
+      await recordActivity(trx, [
+        {
+          userId,
+          type: "review",
+          [idColName]: mediaId,
+          rating: result.rating,
+        },
+      ]);
+    }
+
+    if (result) {
+      await publishLibraryChange(trx, userId, [{ mediaType, mediaId }]);
+    }
+
+    return result;
+  });
 }
 
 /**
@@ -169,11 +290,14 @@ export async function getLibraryRow(
         title: movie.title,
         posterPath: movie.posterPath,
         rating: movieReview.rating,
+        review: movieReview.review,
         createdAt: movieReview.createdAt,
       })
       .from(movieReview)
       .leftJoin(movie, eq(movie.id, movieReview.movieId))
-      .where(and(eq(movieReview.userId, userId), eq(movieReview.movieId, mediaId)));
+      .where(
+        and(eq(movieReview.userId, userId), eq(movieReview.movieId, mediaId)),
+      );
 
     return row;
   } else {
@@ -184,6 +308,7 @@ export async function getLibraryRow(
         title: tv.title,
         posterPath: tv.posterPath,
         rating: tvReview.rating,
+        review: tvReview.review,
         createdAt: tvReview.createdAt,
       })
       .from(tvReview)
@@ -221,5 +346,9 @@ export async function deleteReview(
     )
     .returning();
 
+  if (result) {
+    await publishLibraryChange(db, userId, [{ mediaType, mediaId }]);
+  }
+
   return result;
 }
@@ -0,0 +1,344 @@
+import { db } from "@/drizzle";
+import {
+  diaryEntry,
+  movie,
+  movieReview,
+  tv,
+  tvEpisodeWatch,
+  tvReview,
+  user,
+} from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { fetchDetails } from "@/services/v1/details";
+import { eq, sql, type Column, type SQL } from "drizzle-orm";
+
+const TOP_LIMIT = 10;
+const RATED_TITLES_LIMIT = 5;
+const METADATA_BACKFILL_BATCH = 50;
+// Titles whose details failed to load wait this long before a retry
+const METADATA_RETRY_INTERVAL = "1 day";
+
+// Ratings run from 1 to 10 in 0.5 steps
+const RATING_BUCKETS = Array.from({ length: 19 }, (_, index) => 1 + index / 2);
+
+type DateRange = { start: string; end: string };
+
+type MonthRow = { month: string; films: number; series: number };
+
+type RankedRow = { name: string; id: number | null; count: number };
+
+type RatedRow = {
+  media_type: "movie" | "tv";
+  media_id: number;
+  title: string;
+  poster_path: string | null;
+  slug: string | null;
+  rating: string;
+  rated_at: Date;
+};
+
+/**
+ * Internal: Restricts a timestamp to the range (UTC calendar dates).
+ */
+function inRange(column: Column, range?: DateRange) {
+  if (!range) return sql`TRUE`;
+  return sql`(${column} AT TIME ZONE 'UTC')::date >= ${range.start}::date
+    AND (${column} AT TIME ZONE 'UTC')::date < ${range.end}::date`;
+}
+
+/**
+ * Internal: Every logged watch as `(movie_id, series_id, watched_on)`.
+ *
+ * Diary entries are the log; titles marked watched through a review but
+ * never logged in the diary count once, dated by the review.
+ */
+function watchLog(userId: string, range?: DateRange) {
+  return sql`
+    SELECT ${diaryEntry.movieId} AS movie_id, ${diaryEntry.seriesId} AS series_id,
+      ${diaryEntry.watchedOn} AS watched_on
+    FROM ${diaryEntry}
+    WHERE ${diaryEntry.userId} = ${userId}
+      ${range ? sql`AND ${diaryEntry.watchedOn} >= ${range.start} AND ${diaryEntry.watchedOn} < ${range.end}` : sql``}
+    UNION ALL
+    SELECT ${movieReview.movieId}, NULL::bigint,
+      (${movieReview.createdAt} AT TIME ZONE 'UTC')::date
+    FROM ${movieReview}
+    WHERE ${movieReview.userId} = ${userId}
+      AND ${movieReview.watched}
+      AND ${inRange(movieReview.createdAt, range)}
+      AND NOT EXISTS (
+        SELECT 1 FROM ${diaryEntry}
+        WHERE ${diaryEntry.userId} = ${movieReview.userId}
+          AND ${diaryEntry.movieId} = ${movieReview.movieId}
+      )
+    UNION ALL
+    SELECT NULL::bigint, ${tvReview.seriesId},
+      (${tvReview.createdAt} AT TIME ZONE 'UTC')::date
+    FROM ${tvReview}
+    WHERE ${tvReview.userId} = ${userId}
+      AND ${tvReview.watched}
+      AND ${inRange(tvReview.createdAt, range)}
+      AND NOT EXISTS (
+        SELECT 1 FROM ${diaryEntry}
+        WHERE ${diaryEntry.userId} = ${tvReview.userId}
+          AND ${diaryEntry.seriesId} = ${tvReview.seriesId}
+      )
+  `;
+}
+
+/**
+ * Internal: Ranks names from a JSONB array on the distinct titles watched.
+ *
+ * @param log - Watch log (see `watchLog`)
+ * @param elements - JSONB array per title (genre names, or `{ id, name }` credits)
+ * @param filmsOnly - Only count films (e.g. directors)
+ */
+async function rankWatched(log: SQL, elements: SQL, filmsOnly = false) {
+  return db.execute<RankedRow>(sql`
+    WITH log AS (${log}),
+    titles AS (SELECT DISTINCT movie_id, series_id FROM log)
+    SELECT
+      COALESCE(e.value->>'name', e.value #>> '{}') AS name,
+      (e.value->>'id')::int AS id,
+      COUNT(*)::int AS count
+    FROM titles
+    LEFT JOIN ${movie} ON ${movie.id} = titles.movie_id
+    LEFT JOIN ${tv} ON ${tv.id} = titles.series_id
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(${elements}, '[]'::jsonb)) AS e(value)
+    ${filmsOnly ? sql`WHERE titles.movie_id IS NOT NULL` : sql``}
+    GROUP BY 1, 2
+    ORDER BY count DESC, name
+    LIMIT ${TOP_LIMIT}
+  `);
+}
+
+/**
+ * Retrieves a user's viewing statistics, for one year or all time.
+ *
+ * - Watches come from the diary (plus titles marked watched without a diary
+ *   entry, dated by their review); rewatches count toward monthly totals
+ * - Genres, directors (films) and actors are ranked by distinct titles watched
+ * - Hours watched add film runtimes and episode runtimes of tracked episodes
+ * - Ratings cover reviews created in the period
+ * - Genres, runtimes and credits are read from local metadata; titles whose
+ *   details were never fetched are left out of those figures until backfilled
+ *
+ * @param username - The user's username
+ * @param year - Optional calendar year (UTC); all time when omitted
+ * @returns `{ year, watched: { films, series, byMonth }, hoursWatched,
+ *   ratings: { count, average, distribution, highest, lowest },
+ *   topGenres, topDirectors, topActors }`
+ * @throws HttpError 404 if the user does not exist
+ */
+export async function getUserStats(username: string, year?: number) {
+  const [owner] = await db
+    .select({ id: user.id })
+    .from(user)
+    .where(eq(user.username, username));
+
+  if (!owner) {
+    throw new HttpError(404, "User not found");
+  }
+
+  const range = year
+    ? { start: `${year}-01-01`, end: `${year + 1}-01-01` }
+    : undefined;
+  const log = watchLog(owner.id, range);
+
+  const rated = sql`
+    SELECT 'movie' AS media_type, ${movie.id}::float8 AS media_id, ${movie.title} AS title,
+      ${movie.posterPath} AS poster_path, ${movie.slug} AS slug,
+      ${movieReview.rating} AS rating, ${movieReview.updatedAt} AS rated_at
+    FROM ${movieReview}
+    JOIN ${movie} ON ${movie.id} = ${movieReview.movieId}
+    WHERE ${movieReview.userId} = ${owner.id}
+      AND ${inRange(movieReview.createdAt, range)}
+    UNION ALL
+    SELECT 'tv', ${tv.id}::float8, ${tv.title}, ${tv.posterPath}, ${tv.slug},
+      ${tvReview.rating}, ${tvReview.updatedAt}
+    FROM ${tvReview}
+    JOIN ${tv} ON ${tv.id} = ${tvReview.seriesId}
+    WHERE ${tvReview.userId} = ${owner.id}
+      AND ${inRange(tvReview.createdAt, range)}
+  `;
+
+  const [
+    months,
+    [minutes],
+    distribution,
+    highest,
+    lowest,
+    topGenres,
+    topDirectors,
+    topActors,
+  ] = await Promise.all([
+    db.execute<MonthRow>(sql`
+      WITH log AS (${log})
+      SELECT to_char(watched_on, 'YYYY-MM') AS month,
+        COUNT(movie_id)::int AS films,
+        COUNT(series_id)::int AS series
+      FROM log
+      GROUP BY 1
+      ORDER BY 1
+    `),
+    db.execute<{ films: number; series: number }>(sql`
+      WITH log AS (${log})
+      SELECT
+        (SELECT COALESCE(SUM(${movie.runtime}), 0)
+          FROM log JOIN ${movie} ON ${movie.id} = log.movie_id)::float8 AS films,
+        (SELECT COALESCE(SUM(${tv.runtime}), 0)
+          FROM ${tvEpisodeWatch}
+          JOIN ${tv} ON ${tv.id} = ${tvEpisodeWatch.seriesId}
+          WHERE ${tvEpisodeWatch.userId} = ${owner.id}
+            AND ${inRange(tvEpisodeWatch.watchedAt, range)})::float8 AS series
+    `),
+    db.execute<{ rating: number; count: number }>(sql`
+      WITH rated AS (${rated})
+      SELECT rating::float8 AS rating, COUNT(*)::int AS count
+      FROM rated
+      GROUP BY 1
+    `),
+    db.execute<RatedRow>(sql`
+      WITH rated AS (${rated})
+      SELECT * FROM rated ORDER BY rating DESC, rated_at DESC
+      LIMIT ${RATED_TITLES_LIMIT}
+    `),
+    db.execute<RatedRow>(sql`
+      WITH rated AS (${rated})
+      SELECT * FROM rated ORDER BY rating ASC, rated_at DESC
+      LIMIT ${RATED_TITLES_LIMIT}
+    `),
+    rankWatched(log, sql`COALESCE(${movie.genres}, ${tv.genres})`),
+    rankWatched(log, sql`${movie.directors}`, true),
+    rankWatched(log, sql`COALESCE(${movie.cast}, ${tv.cast})`),
+  ]);
+
+  const byMonth = year
+    ? Array.from({ length: 12 }, (_, index) => {
+        const month = `${year}-${String(index + 1).padStart(2, "0")}`;
+        const row = months.find((entry) => entry.month === month);
+        return { month, films: row?.films ?? 0, series: row?.series ?? 0 };
+      })
+    : [...months];
+
+  const counts = new Map(distribution.map((row) => [row.rating, row.count]));
+  const ratingCount = distribution.reduce((sum, row) => sum + row.count, 0);
+  const ratingTotal = distribution.reduce(
+    (sum, row) => sum + row.rating * row.count,
+    0,
+  );
+
+  const toTitle = (row: RatedRow) => ({
+    mediaType: row.media_type,
+    mediaId: row.media_id,
+    title: row.title,
+    posterPath: row.poster_path,
+    slug: row.slug,
+    rating: row.rating,
+  });
+
+  return {
+    year: year ?? null,
+    watched: {
+      films: byMonth.reduce((sum, row) => sum + row.films, 0),
+      series: byMonth.reduce((sum, row) => sum + row.series, 0),
+      byMonth,
+    },
+    hoursWatched:
+      Math.round((((minutes?.films ?? 0) + (minutes?.series ?? 0)) / 60) * 10) /
+      10,
+    ratings: {
+      count: ratingCount,
+      average:
+        ratingCount > 0
+          ? Math.round((ratingTotal / ratingCount) * 100) / 100
+          : null,
+      distribution: RATING_BUCKETS.map((rating) => ({
+        rating,
+        count: counts.get(rating) ?? 0,
+      })),
+      highest: highest.map(toTitle),
+      lowest: lowest.map(toTitle),
+    },
+    topGenres: topGenres.map(({ name, count }) => ({ name, count })),
+    topDirectors: [...topDirectors],
+    topActors: [...topActors],
+  };
+}
+
+/**
+ * Fetches TMDB details for logged titles that have no stored stats metadata
+ * yet (logged before metadata was stored, or added by imports), so their
+ * genres, runtime and credits show up in stats. Failures are logged and
+ * stamped per title; failed titles are skipped for `METADATA_RETRY_INTERVAL`
+ * and then retried after titles never attempted, so titles that keep
+ * failing (e.g. removed from TMDB) do not block the rest.
+ *
+ * @param limit - Max titles per run (keeps TMDB usage bounded)
+ * @returns Number of titles updated
+ */
+export async function backfillStatsMetadata(limit = METADATA_BACKFILL_BATCH) {
+  const pending = await db.execute<{
+    media_type: "movie" | "tv";
+    id: number;
+  }>(
+    sql`
+      SELECT media_type, id FROM (
+        SELECT 'movie' AS media_type, ${movie.id}::float8 AS id,
+          ${movie.metadataFailedAt} AS failed_at
+        FROM ${movie}
+        WHERE ${movie.genres} IS NULL
+          AND (
+            ${movie.metadataFailedAt} IS NULL
+            OR ${movie.metadataFailedAt} < now() - ${METADATA_RETRY_INTERVAL}::interval
+          )
+          AND (
+            EXISTS (SELECT 1 FROM ${movieReview} WHERE ${movieReview.movieId} = ${movie.id})
+            OR EXISTS (SELECT 1 FROM ${diaryEntry} WHERE ${diaryEntry.movieId} = ${movie.id})
+          )
+        UNION ALL
+        SELECT 'tv', ${tv.id}::float8, ${tv.metadataFailedAt}
+        FROM ${tv}
+        WHERE ${tv.genres} IS NULL
+          AND (
+            ${tv.metadataFailedAt} IS NULL
+            OR ${tv.metadataFailedAt} < now() - ${METADATA_RETRY_INTERVAL}::interval
+          )
+          AND (
+            EXISTS (SELECT 1 FROM ${tvReview} WHERE ${tvReview.seriesId} = ${tv.id})
+            OR EXISTS (SELECT 1 FROM ${diaryEntry} WHERE ${diaryEntry.seriesId} = ${tv.id})
+          )
+      ) AS pending
+      ORDER BY failed_at ASC NULLS FIRST, media_type, id
+      LIMIT ${limit}
+    `,
+  );
+
+  let updated = 0;
+  for (const { media_type, id } of pending) {
+    try {
+      await fetchDetails(media_type, id);
+      updated++;
+    } catch (error) {
+      console.error(
+        `[stats-metadata] failed to fetch ${media_type} ${id}:`,
+        error,
+      );
+
+      const failedAt = new Date();
+      if (media_type === "movie") {
+        await db
+          .update(movie)
+          .set({ metadataFailedAt: failedAt })
+          .where(eq(movie.id, id));
+      } else {
+        await db
+          .update(tv)
+          .set({ metadataFailedAt: failedAt })
+          .where(eq(tv.id, id));
+      }
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,231 @@
+import { HttpError } from "@/lib/httpError";
+import {
+  movieSearchResponseSchema,
+  type MovieSearchResult,
+} from "@/schemas/v1/search-schema";
+
+type TMDBError = {
+  success: boolean;
+  status_code: number;
+  status_message: string;
+};
+
+export type TitleQuery = {
+  name: string;
+  year: number | null;
+};
+
+export type TitleMatch = {
+  mediaType: "movie" | "tv";
+  mediaId: number;
+  title: string;
+  posterPath: string | null;
+  backdropPath: string | null;
+  releaseDate: string | null;
+};
+
+export type ResolveResult =
+  | { status: "matched"; match: TitleMatch }
+  | { status: "ambiguous"; candidates: TitleMatch[] }
+  | { status: "not_found" };
+
+/**
+ * Maps an external title (name + year) to a TMDB ID.
+ * Implementations are swappable so imports can run against TMDB in
+ * production and against a fixture in tests or offline scripts.
+ */
+export interface TitleResolver {
+  resolve(query: TitleQuery): Promise<ResolveResult>;
+}
+
+const MAX_CANDIDATES = 5;
+
+/**
+ * Internal: Normalizes a title for comparison (case, accents, punctuation).
+ */
+function normalizeTitle(title: string) {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Internal: Converts a TMDB search result into a `TitleMatch`.
+ */
+function toMatch(result: MovieSearchResult): TitleMatch {
+  return {
+    mediaType: "movie",
+    mediaId: result.id,
+    title: result.title,
+    posterPath: result.poster_path,
+    backdropPath: result.backdrop_path,
+    releaseDate: result.release_date || null,
+  };
+}
+
+/**
+ * Picks the best match from search results.
+ *
+ * - A single result with the same normalized title and release year is a match
+ * - Several exact matches are ambiguous
+ * - Without an exact title match, a lone result for the year is a match
+ *
+ * @param query - The title being resolved
+ * @param results - Candidate search results
+ * @returns The resolution outcome
+ */
+export function pickMatch(
+  query: TitleQuery,
+  results: MovieSearchResult[],
+): ResolveResult {
+  const name = normalizeTitle(query.name);
+  const sameYear = results.filter(
+    (r) =>
+      query.year === null || Number(r.release_date?.slice(0, 4)) === query.year,
+  );
+
+  const exact = sameYear.filter(
+    (r) =>
+      normalizeTitle(r.title) === name ||
+      normalizeTitle(r.original_title) === name,
+  );
+
+  if (exact.length === 1)
+    return { status: "matched", match: toMatch(exact[0]!) };
+  if (exact.length > 1) {
+    return {
+      status: "ambiguous",
+      candidates: exact.slice(0, MAX_CANDIDATES).map(toMatch),
+    };
+  }
+
+  if (sameYear.length === 1) {
+    return { status: "matched", match: toMatch(sameYear[0]!) };
+  }
+  if (sameYear.length > 1) {
+    return {
+      status: "ambiguous",
+      candidates: sameYear.slice(0, MAX_CANDIDATES).map(toMatch),
+    };
+  }
+
+  return { status: "not_found" };
+}
+
+/**
+ * Creates a resolver backed by the TMDB movie search API.
+ *
+ * @param apiToken - TMDB bearer token (defaults to `API_TOKEN`)
+ * @returns A `TitleResolver`
+ */
+export function createTmdbResolver(
+  apiToken = process.env.API_TOKEN,
+): TitleResolver {
+  return {
+    async resolve(query) {
+      if (!apiToken) {
+        throw new HttpError(500, "Server misconfiguration: missing API token");
+      }
+
+      const params = new URLSearchParams({
+        query: query.name,
+        include_adult: "false",
+        language: "en-US",
+        page: "1",
+      });
+      if (query.year !== null) {
+        params.set("primary_release_year", String(query.year));
+      }
+
+      const response = await fetch(
+        `https://api.themoviedb.org/3/search/movie?${params}`,
+        {
+          method: "GET",
+          headers: {
+            accept: "application/json",
+            Authorization: `Bearer ${apiToken}`,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        let message = `TMDB API Error: ${response.status} ${response.statusText}`;
+        try {
+          const tmdbError = (await response.json()) as TMDBError;
+          if (tmdbError?.status_message) {
+            message = `TMDB API Error: ${tmdbError.status_code} – ${tmdbError.status_message}`;
+          }
+        } catch {
+          // Non-JSON error body — keep default message
+        }
+        throw new HttpError(response.status, message);
+      }
+
+      const validationResult = movieSearchResponseSchema.safeParse(
+        await response.json(),
+      );
+      if (!validationResult.success) {
+        console.error("Zod validation failed:", validationResult.error.message);
+        throw new HttpError(502, "Invalid data received from TMDB API.");
+      }
+
+      return pickMatch(query, validationResult.data.results);
+    },
+  };
+}
+
+/**
+ * Creates a resolver backed by a static fixture, keyed by `"Name (Year)"`
+ * (or just `"Name"` for rows without a year). Array values are reported as
+ * ambiguous; missing keys as not found.
+ *
+ * @param fixture - Map of title keys to matches
+ * @returns A `TitleResolver`
+ */
+export function createFixtureResolver(
+  fixture: Record<string, TitleMatch | TitleMatch[]>,
+): TitleResolver {
+  return {
+    async resolve({ name, year }) {
+      const entry =
+        fixture[year !== null ? `${name} (${year})` : name] ?? fixture[name];
+
+      if (!entry) return { status: "not_found" };
+      if (Array.isArray(entry)) {
+        return entry.length === 1
+          ? { status: "matched", match: entry[0]! }
+          : { status: "ambiguous", candidates: entry };
+      }
+      return { status: "matched", match: entry };
+    },
+  };
+}
+
+/**
+ * Wraps a resolver so repeated queries (e.g. a film appearing in ratings,
+ * reviews and several lists) are only resolved once.
+ *
+ * @param resolver - The resolver to memoize
+ * @returns A memoized `TitleResolver`
+ */
+export function withResolverCache(resolver: TitleResolver): TitleResolver {
+  const cache = new Map<string, Promise<ResolveResult>>();
+
+  return {
+    resolve(query) {
+      const key = `${query.name.toLowerCase()}|${query.year ?? ""}`;
+      let result = cache.get(key);
+      if (!result) {
+        result = resolver.resolve(query);
+        // Don't cache failures so transient TMDB errors can be retried
+        result.catch(() => cache.delete(key));
+        cache.set(key, result);
+      }
+      return result;
+    },
+  };
+}
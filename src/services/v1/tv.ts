@@ -0,0 +1,667 @@
+import { db } from "@/drizzle";
+import { tv, tvEpisodeWatch, tvReview, tvSeasonReview } from "@/drizzle/schema";
+import { HttpError } from "@/lib/httpError";
+import { validateRating } from "@/lib/validate-rating";
+import { fetchDetails } from "@/services/v1/details";
+import { ensureDiaryEntry } from "@/services/v1/diary";
+import type { TvEpisodeSummary, TvSeasonSummary } from "@/types/tv";
+import { and, eq, inArray } from "drizzle-orm";
+
+// Airing series change weekly; ended series only need an occasional refresh
+const ACTIVE_METADATA_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+const ENDED_METADATA_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Caps TMDB calls made while building the up-next feed
+const UP_NEXT_MAX_REFRESHES = 5;
+
+const seriesMetadataColumns = {
+  id: tv.id,
+  title: tv.title,
+  posterPath: tv.posterPath,
+  inProduction: tv.inProduction,
+  seasons: tv.seasons,
+  lastEpisodeToAir: tv.lastEpisodeToAir,
+  nextEpisodeToAir: tv.nextEpisodeToAir,
+  metadataUpdatedAt: tv.metadataUpdatedAt,
+};
+
+type EpisodeRef = {
+  seasonNumber: number;
+  episodeNumber: number;
+};
+
+type UpNextEpisode = EpisodeRef & {
+  name: string | null;
+  airDate: string | null;
+  aired: boolean;
+};
+
+export type SeriesMetadata = {
+  id: number;
+  title: string;
+  posterPath: string | null;
+  inProduction: boolean | null;
+  seasons: TvSeasonSummary[] | null;
+  lastEpisodeToAir: TvEpisodeSummary | null;
+  nextEpisodeToAir: TvEpisodeSummary | null;
+  metadataUpdatedAt: Date | null;
+};
+
+/**
+ * Internal: Formats an episode as `S2E3`.
+ */
+function episodeCode({ seasonNumber, episodeNumber }: EpisodeRef) {
+  return `S${seasonNumber}E${episodeNumber}`;
+}
+
+/**
+ * Internal: Stable key for episode lookups.
+ */
+function episodeKey({ seasonNumber, episodeNumber }: EpisodeRef) {
+  return `${seasonNumber}:${episodeNumber}`;
+}
+
+/**
+ * Internal: Reads the locally stored series metadata.
+ */
+async function readSeriesMetadata(
+  seriesId: number,
+): Promise<SeriesMetadata | undefined> {
+  const [result] = await db
+    .select(seriesMetadataColumns)
+    .from(tv)
+    .where(eq(tv.id, seriesId));
+
+  return result;
+}
+
+/**
+ * Returns whether stored series metadata should be refreshed from TMDB.
+ *
+ * @param meta - Locally stored series metadata
+ * @returns `true` when metadata is missing or older than its max age
+ */
+export function isMetadataStale(meta: SeriesMetadata) {
+  if (!meta.seasons || !meta.metadataUpdatedAt) return true;
+
+  const maxAge =
+    meta.inProduction === false
+      ? ENDED_METADATA_MAX_AGE_MS
+      : ACTIVE_METADATA_MAX_AGE_MS;
+
+  return Date.now() - meta.metadataUpdatedAt.getTime() > maxAge;
+}
+
+/**
+ * Retrieves season/episode metadata for a series, refreshing it from TMDB
+ * (via `fetchDetails`) when missing or stale. Stale data is used as a
+ * fallback if TMDB is unavailable.
+ *
+ * @param seriesId - TMDB series ID
+ * @returns Stored series metadata
+ * @throws HttpError (404) when the series is unknown
+ */
+export async function getSeriesMetadata(seriesId: number) {
+  let meta = await readSeriesMetadata(seriesId);
+
+  if (!meta || isMetadataStale(meta)) {
+    try {
+      await fetchDetails("tv", seriesId);
+      meta = await readSeriesMetadata(seriesId);
+    } catch (error) {
+      if (!meta?.seasons) throw error;
+      console.error("Using stale series metadata", { seriesId, error });
+    }
+  }
+
+  if (!meta || !meta.seasons) {
+    throw new HttpError(404, "Series not found");
+  }
+
+  return meta;
+}
+
+/**
+ * Lists every aired episode of a series in watch order.
+ * Specials (season 0) are excluded; an episode counts as aired when it is
+ * at or before `lastEpisodeToAir`.
+ *
+ * @param meta - Series metadata
+ * @returns Aired episodes ordered by season, then episode
+ */
+export function getAiredEpisodes(meta: SeriesMetadata): EpisodeRef[] {
+  const last = meta.lastEpisodeToAir;
+  if (!last) return [];
+
+  const seasons = (meta.seasons ?? [])
+    .filter((season) => season.seasonNumber > 0)
+    .sort((a, b) => a.seasonNumber - b.seasonNumber);
+
+  const aired: EpisodeRef[] = [];
+  for (const season of seasons) {
+    if (season.seasonNumber > last.seasonNumber) break;
+
+    const airedCount =
+      season.seasonNumber === last.seasonNumber
+        ? Math.min(last.episodeNumber, season.episodeCount)
+        : season.episodeCount;
+
+    for (let episodeNumber = 1; episodeNumber <= airedCount; episodeNumber++) {
+      aired.push({ seasonNumber: season.seasonNumber, episodeNumber });
+    }
+  }
+
+  return aired;
+}
+
+/**
+ * Internal: Looks up an episode's name and air date in the season episode
+ * data, falling back to the last aired episode for seasons without it.
+ */
+function findEpisode(
+  meta: SeriesMetadata,
+  ref: EpisodeRef,
+): TvEpisodeSummary | undefined {
+  const key = episodeKey(ref);
+  const episode = meta.seasons
+    ?.find((season) => season.seasonNumber === ref.seasonNumber)
+    ?.episodes?.find((candidate) => episodeKey(candidate) === key);
+
+  if (episode) return episode;
+
+  const last = meta.lastEpisodeToAir;
+  return last && episodeKey(last) === key ? last : undefined;
+}
+
+/**
+ * Computes a user's progress through a series from its metadata and the
+ * episodes they have logged.
+ *
+ * @param meta - Series metadata
+ * @param watchedEpisodes - Episodes the user has logged
+ * @returns Progress counts, per-season breakdown and the next episode to watch
+ */
+export function computeSeriesProgress(
+  meta: SeriesMetadata,
+  watchedEpisodes: EpisodeRef[],
+) {
+  const watched = new Set(watchedEpisodes.map(episodeKey));
+  const aired = getAiredEpisodes(meta);
+
+  let watchedCount = 0;
+  let firstUnwatched: EpisodeRef | null = null;
+  const seasonCounts = new Map<number, { aired: number; watched: number }>();
+
+  for (const episode of aired) {
+    const counts = seasonCounts.get(episode.seasonNumber) ?? {
+      aired: 0,
+      watched: 0,
+    };
+    counts.aired++;
+
+    if (watched.has(episodeKey(episode))) {
+      watchedCount++;
+      counts.watched++;
+    } else if (!firstUnwatched) {
+      firstUnwatched = episode;
+    }
+
+    seasonCounts.set(episode.seasonNumber, counts);
+  }
+
+  const seasons = (meta.seasons ?? [])
+    .filter((season) => season.seasonNumber > 0)
+    .sort((a, b) => a.seasonNumber - b.seasonNumber)
+    .map((season) => ({
+      seasonNumber: season.seasonNumber,
+      episodeCount: season.episodeCount,
+      airedEpisodes: seasonCounts.get(season.seasonNumber)?.aired ?? 0,
+      watchedEpisodes: seasonCounts.get(season.seasonNumber)?.watched ?? 0,
+    }));
+
+  const totalEpisodes = seasons.reduce((sum, s) => sum + s.episodeCount, 0);
+
+  let upNext: UpNextEpisode | null = null;
+  if (firstUnwatched) {
+    const episode = findEpisode(meta, firstUnwatched);
+    upNext = {
+      ...firstUnwatched,
+      name: episode?.name ?? null,
+      airDate: episode?.airDate ?? null,
+      aired: true,
+    };
+  } else if (
+    meta.nextEpisodeToAir &&
+    !watched.has(episodeKey(meta.nextEpisodeToAir))
+  ) {
+    upNext = { ...meta.nextEpisodeToAir, aired: false };
+  }
+
+  const completed = aired.length > 0 && watchedCount === aired.length;
+  const status =
+    watchedCount === 0 ? "not_started" : completed ? "completed" : "watching";
+
+  const summary = [
+    `${watchedCount}/${aired.length} episodes`,
+    upNext ? `${episodeCode(upNext)} up next` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return {
+    seriesId: meta.id,
+    title: meta.title,
+    posterPath: meta.posterPath,
+    inProduction: meta.inProduction,
+    status,
+    completed,
+    watchedEpisodes: watchedCount,
+    airedEpisodes: aired.length,
+    totalEpisodes,
+    upNext,
+    summary,
+    seasons,
+  };
+}
+
+/**
+ * Internal: Loads a user's logged episodes and season ratings for a series
+ * and combines them into a progress object.
+ */
+async function loadProgress(userId: string, meta: SeriesMetadata) {
+  const [watchedEpisodes, seasonRatings] = await Promise.all([
+    db
+      .select({
+        seasonNumber: tvEpisodeWatch.seasonNumber,
+        episodeNumber: tvEpisodeWatch.episodeNumber,
+      })
+      .from(tvEpisodeWatch)
+      .where(
+        and(
+          eq(tvEpisodeWatch.userId, userId),
+          eq(tvEpisodeWatch.seriesId, meta.id),
+        ),
+      ),
+    db
+      .select({
+        seasonNumber: tvSeasonReview.seasonNumber,
+        rating: tvSeasonReview.rating,
+      })
+      .from(tvSeasonReview)
+      .where(
+        and(
+          eq(tvSeasonReview.userId, userId),
+          eq(tvSeasonReview.seriesId, meta.id),
+        ),
+      ),
+  ]);
+
+  const progress = computeSeriesProgress(meta, watchedEpisodes);
+  const ratings = new Map(seasonRatings.map((r) => [r.seasonNumber, r.rating]));
+
+  return {
+    ...progress,
+    seasons: progress.seasons.map((season) => ({
+      ...season,
+      rating: ratings.get(season.seasonNumber) ?? null,
+    })),
+  };
+}
+
+/**
+ * Internal: Records a finished series as watched once every aired episode
+ * is logged: flags the series review as watched and logs a first diary
+ * entry like `PATCH /actions/media` does. A series the user never rated
+ * has no review (ratings are required), so the diary entry alone records it.
+ */
+async function syncSeriesCompletion(
+  userId: string,
+  seriesId: number,
+  completed: boolean,
+) {
+  if (!completed) return;
+
+  await db.transaction(async (trx) => {
+    const [review] = await trx
+      .select({ watched: tvReview.watched })
+      .from(tvReview)
+      .where(and(eq(tvReview.userId, userId), eq(tvReview.seriesId, seriesId)));
+
+    if (review?.watched) return;
+
+    if (review) {
+      await trx
+        .update(tvReview)
+        .set({ watched: true, updatedAt: new Date() })
+        .where(
+          and(eq(tvReview.userId, userId), eq(tvReview.seriesId, seriesId)),
+        );
+    }
+
+    await ensureDiaryEntry(trx, userId, "tv", seriesId);
+  });
+}
+
+/**
+ * Internal: Throws unless the season exists in the series metadata.
+ */
+function findSeason(meta: SeriesMetadata, seasonNumber: number) {
+  const season = meta.seasons?.find((s) => s.seasonNumber === seasonNumber);
+  if (!season) {
+    throw new HttpError(404, "Season not found");
+  }
+  return season;
+}
+
+/**
+ * Retrieves a user's progress through a series.
+ *
+ * @param userId - The viewer
+ * @param seriesId - TMDB series ID
+ * @returns Progress including per-season counts, ratings and the next episode
+ */
+export async function getSeriesProgress(userId: string, seriesId: number) {
+  const meta = await getSeriesMetadata(seriesId);
+  return loadProgress(userId, meta);
+}
+
+/**
+ * Builds the "up next" feed: series the user has started but not finished,
+ * ordered by when their next episode is available (already-aired episodes
+ * first, then upcoming ones by air date).
+ *
+ * Metadata comes from the local DB. Only a handful of stale series are
+ * refreshed from TMDB per call to keep latency and quota usage bounded;
+ * the rest are served from their last stored snapshot.
+ *
+ * @param userId - The viewer
+ * @param limit - Max number of series to return
+ * @returns Array of `{ seriesId, title, posterPath, watchedEpisodes, airedEpisodes, nextEpisode }`
+ */
+export async function getUpNext(userId: string, limit = 50) {
+  const watchedRows = await db
+    .select({
+      seriesId: tvEpisodeWatch.seriesId,
+      seasonNumber: tvEpisodeWatch.seasonNumber,
+      episodeNumber: tvEpisodeWatch.episodeNumber,
+    })
+    .from(tvEpisodeWatch)
+    .where(eq(tvEpisodeWatch.userId, userId));
+
+  const watchedBySeries = new Map<number, EpisodeRef[]>();
+  for (const { seriesId, ...episode } of watchedRows) {
+    const episodes = watchedBySeries.get(seriesId) ?? [];
+    episodes.push(episode);
+    watchedBySeries.set(seriesId, episodes);
+  }
+
+  const seriesIds = [...watchedBySeries.keys()];
+  if (seriesIds.length === 0) return [];
+
+  let metadata: SeriesMetadata[] = await db
+    .select(seriesMetadataColumns)
+    .from(tv)
+    .where(inArray(tv.id, seriesIds));
+
+  const stale = metadata
+    .filter(isMetadataStale)
+    .slice(0, UP_NEXT_MAX_REFRESHES)
+    .map((meta) => meta.id);
+
+  if (stale.length > 0) {
+    const refreshes = await Promise.allSettled(
+      stale.map((id) => fetchDetails("tv", id)),
+    );
+    refreshes.forEach((refresh, i) => {
+      if (refresh.status === "rejected") {
+        console.error("Failed to refresh series metadata", {
+          seriesId: stale[i],
+          error: refresh.reason,
+        });
+      }
+    });
+
+    metadata = await db
+      .select(seriesMetadataColumns)
+      .from(tv)
+      .where(inArray(tv.id, seriesIds));
+  }
+
+  const feed = metadata
+    .filter((meta) => meta.seasons)
+    .map((meta) =>
+      computeSeriesProgress(meta, watchedBySeries.get(meta.id) ?? []),
+    )
+    .filter((progress) => progress.upNext !== null)
+    .map((progress) => ({
+      seriesId: progress.seriesId,
+      title: progress.title,
+      posterPath: progress.posterPath,
+      watchedEpisodes: progress.watchedEpisodes,
+      airedEpisodes: progress.airedEpisodes,
+      nextEpisode: progress.upNext!,
+    }));
+
+  // Aired episodes are available now; upcoming ones sort by air date
+  const availableAt = (episode: UpNextEpisode) =>
+    episode.aired
+      ? Number.NEGATIVE_INFINITY
+      : episode.airDate
+        ? Date.parse(episode.airDate)
+        : Number.POSITIVE_INFINITY;
+
+  feed.sort(
+    (a, b) =>
+      availableAt(a.nextEpisode) - availableAt(b.nextEpisode) ||
+      a.title.localeCompare(b.title),
+  );
+
+  return feed.slice(0, limit);
+}
+
+/**
+ * Logs a single aired episode as watched (idempotent).
+ *
+ * @param userId - The viewer
+ * @param seriesId - TMDB series ID
+ * @param episode - `{ seasonNumber, episodeNumber }`
+ * @returns Updated series progress
+ * @throws HttpError (404 | 400) when the episode is unknown or not yet aired
+ */
+export async function markEpisodeWatched(
+  userId: string,
+  seriesId: number,
+  episode: EpisodeRef,
+) {
+  const meta = await getSeriesMetadata(seriesId);
+
+  const season = findSeason(meta, episode.seasonNumber);
+  if (
+    episode.episodeNumber < 1 ||
+    episode.episodeNumber > season.episodeCount
+  ) {
+    throw new HttpError(404, "Episode not found");
+  }
+
+  const isAired = getAiredEpisodes(meta).some(
+    (aired) => episodeKey(aired) === episodeKey(episode),
+  );
+  if (!isAired && episode.seasonNumber > 0) {
+    throw new HttpError(400, "This episode has not aired yet");
+  }
+
+  await db
+    .insert(tvEpisodeWatch)
+    .values({ userId, seriesId, ...episode })
+    .onConflictDoNothing();
+
+  const progress = await loadProgress(userId, meta);
+  await syncSeriesCompletion(userId, seriesId, progress.completed);
+
+  return progress;
+}
+
+/**
+ * Removes a logged episode. The series' watched flag is left unchanged.
+ *
+ * @param userId - The viewer
+ * @param seriesId - TMDB series ID
+ * @param episode - `{ seasonNumber, episodeNumber }`
+ * @returns Updated series progress
+ */
+export async function unmarkEpisodeWatched(
+  userId: string,
+  seriesId: number,
+  episode: EpisodeRef,
+) {
+  const meta = await getSeriesMetadata(seriesId);
+
+  await db
+    .delete(tvEpisodeWatch)
+    .where(
+      and(
+        eq(tvEpisodeWatch.userId, userId),
+        eq(tvEpisodeWatch.seriesId, seriesId),
+        eq(tvEpisodeWatch.seasonNumber, episode.seasonNumber),
+        eq(tvEpisodeWatch.episodeNumber, episode.episodeNumber),
+      ),
+    );
+
+  return loadProgress(userId, meta);
+}
+
+/**
+ * Logs every aired episode of a season as watched (idempotent).
+ *
+ * @param userId - The viewer
+ * @param seriesId - TMDB series ID
+ * @param seasonNumber - Season to mark
+ * @returns Updated series progress
+ * @throws HttpError (404 | 400) when the season is unknown or has not aired
+ */
+export async function markSeasonWatched(
+  userId: string,
+  seriesId: number,
+  seasonNumber: number,
+) {
+  const meta = await getSeriesMetadata(seriesId);
+  const season = findSeason(meta, seasonNumber);
+
+  // Specials never count as aired, so allow logging all of them
+  const episodes =
+    seasonNumber === 0
+      ? Array.from({ length: season.episodeCount }, (_, i) => ({
+          seasonNumber,
+          episodeNumber: i + 1,
+        }))
+      : getAiredEpisodes(meta).filter((e) => e.seasonNumber === seasonNumber);
+
+  if (episodes.length === 0) {
+    throw new HttpError(400, "This season has not aired yet");
+  }
+
+  await db
+    .insert(tvEpisodeWatch)
+    .values(episodes.map((episode) => ({ userId, seriesId, ...episode })))
+    .onConflictDoNothing();
+
+  const progress = await loadProgress(userId, meta);
+  await syncSeriesCompletion(userId, seriesId, progress.completed);
+
+  return progress;
+}
+
+/**
+ * Removes every logged episode of a season.
+ *
+ * @param userId - The viewer
+ * @param seriesId - TMDB series ID
+ * @param seasonNumber - Season to clear
+ * @returns Updated series progress
+ */
+export async function unmarkSeasonWatched(
+  userId: string,
+  seriesId: number,
+  seasonNumber: number,
+) {
+  const meta = await getSeriesMetadata(seriesId);
+
+  await db
+    .delete(tvEpisodeWatch)
+    .where(
+      and(
+        eq(tvEpisodeWatch.userId, userId),
+        eq(tvEpisodeWatch.seriesId, seriesId),
+        eq(tvEpisodeWatch.seasonNumber, seasonNumber),
+      ),
+    );
+
+  return loadProgress(userId, meta);
+}
+
+/**
+ * Creates or updates a user's rating for a season (upsert).
+ *
+ * @param userId - The viewer
+ * @param seriesId - TMDB series ID
+ * @param seasonNumber - Season to rate
+ * @param rawRating - Rating string (validated with `validateRating`)
+ * @returns Updated series progress
+ */
+export async function rateSeason(
+  userId: string,
+  seriesId: number,
+  seasonNumber: number,
+  rawRating: string,
+) {
+  const rating = (rawRating ?? "").trim();
+
+  const error = validateRating(rating);
+  if (error) {
+    throw new HttpError(400, error);
+  }
+
+  const meta = await getSeriesMetadata(seriesId);
+  findSeason(meta, seasonNumber);
+
+  await db
+    .insert(tvSeasonReview)
+    .values({ userId, seriesId, seasonNumber, rating })
+    .onConflictDoUpdate({
+      target: [
+        tvSeasonReview.userId,
+        tvSeasonReview.seriesId,
+        tvSeasonReview.seasonNumber,
+      ],
+      set: { rating, updatedAt: new Date() },
+    });
+
+  return loadProgress(userId, meta);
+}
+
+/**
+ * Deletes a user's rating for a season.
+ *
+ * @param userId - The viewer
+ * @param seriesId - TMDB series ID
+ * @param seasonNumber - Season to clear
+ * @returns The deleted row, or `undefined` if none existed
+ */
+export async function deleteSeasonRating(
+  userId: string,
+  seriesId: number,
+  seasonNumber: number,
+) {
+  const [result] = await db
+    .delete(tvSeasonReview)
+    .where(
+      and(
+        eq(tvSeasonReview.userId, userId),
+        eq(tvSeasonReview.seriesId, seriesId),
+        eq(tvSeasonReview.seasonNumber, seasonNumber),
+      ),
+    )
+    .returning();
+
+  return result;
+}
@@ -0,0 +1,247 @@
+import { db, type Transaction } from "@/drizzle";
+import { movie, tv, watchlistItem } from "@/drizzle/schema";
+import {
+  priorityValues,
+  toPriorityName,
+  type WatchlistPriority,
+} from "@/lib/watchlist-priority";
+import { publishLibraryChange, toMediaRef } from "@/services/v1/realtime";
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+
+type MediaType = "movie" | "tv";
+
+export type WatchlistSort = "added" | "priority";
+
+/**
+ * Internal: Builds the predicate matching a user's watchlist row for a title.
+ */
+function mediaPredicate(userId: string, mediaType: MediaType, mediaId: number) {
+  return and(
+    eq(watchlistItem.userId, userId),
+    mediaType === "movie"
+      ? eq(watchlistItem.movieId, mediaId)
+      : eq(watchlistItem.seriesId, mediaId),
+  );
+}
+
+/**
+ * Internal: Shapes a watchlist row for clients.
+ */
+function formatItem(row: typeof watchlistItem.$inferSelect) {
+  return {
+    watchlistItemId: row.id,
+    mediaType: row.mediaType as MediaType,
+    mediaId: (row.movieId ?? row.seriesId)!,
+    priority: toPriorityName(row.priority),
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Retrieves the user's watchlist with title and poster.
+ * Every user implicitly has exactly one watchlist; it cannot be deleted.
+ *
+ * @param userId - The watchlist owner
+ * @param sort - "added" (newest first) or "priority" (highest first, then newest)
+ * @returns Array of watchlist items
+ */
+export async function getWatchlist(
+  userId: string,
+  sort: WatchlistSort = "added",
+) {
+  const order =
+    sort === "priority"
+      ? [desc(watchlistItem.priority), desc(watchlistItem.createdAt)]
+      : [desc(watchlistItem.createdAt), asc(watchlistItem.id)];
+
+  const results = await db
+    .select({
+      watchlistItemId: watchlistItem.id,
+      mediaType: sql<MediaType>`${watchlistItem.mediaType}`,
+      mediaId:
+        sql<number>`COALESCE(${watchlistItem.movieId}, ${watchlistItem.seriesId})`.mapWith(
+          Number,
+        ),
+      title: sql<string>`COALESCE(${movie.title}, ${tv.title})`,
+      posterPath: sql<
+        string | null
+      >`COALESCE(${movie.posterPath}, ${tv.posterPath})`,
+      priority: watchlistItem.priority,
+      createdAt: watchlistItem.createdAt,
+    })
+    .from(watchlistItem)
+    .leftJoin(movie, eq(watchlistItem.movieId, movie.id))
+    .leftJoin(tv, eq(watchlistItem.seriesId, tv.id))
+    .where(eq(watchlistItem.userId, userId))
+    .orderBy(...order);
+
+  return results.map((result) => ({
+    ...result,
+    priority: toPriorityName(result.priority),
+  }));
+}
+
+/**
+ * Retrieves the user's watchlist entry for a title, if any.
+ *
+ * @param userId - The watchlist owner
+ * @param mediaType - "movie" | "tv"
+ * @param mediaId - TMDB media ID
+ * @returns `{ watchlistItemId, mediaType, mediaId, priority, createdAt } | undefined`
+ */
+export async function getWatchlistEntry(
+  userId: string,
+  mediaType: MediaType,
+  mediaId: number,
+) {
+  const [result] = await db
+    .select()
+    .from(watchlistItem)
+    .where(mediaPredicate(userId, mediaType, mediaId));
+
+  return result ? formatItem(result) : undefined;
+}
+
+/**
+ * Adds a title to the user's watchlist (idempotent).
+ * Re-adding an existing title updates its priority when one is given.
+ *
+ * @param userId - The watchlist owner
+ * @param mediaType - "movie" | "tv"
+ * @param mediaId - TMDB media ID
+ * @param priority - Optional priority (defaults to "normal" for new items)
+ * @returns `{ created: boolean, item }`
+ */
+export async function addToWatchlist(
+  userId: string,
+  mediaType: MediaType,
+  mediaId: number,
+  priority?: WatchlistPriority,
+) {
+  const idCol =
+    mediaType === "movie" ? watchlistItem.movieId : watchlistItem.seriesId;
+
+  return db.transaction(async (trx) => {
+    // Concurrent adds of the same title resolve to a single row
+    const [inserted] = await trx
+      .insert(watchlistItem)
+      .values({
+        userId,
+        mediaType,
+        movieId: mediaType === "movie" ? mediaId : null,
+        seriesId: mediaType === "tv" ? mediaId : null,
+        priority: priorityValues[priority ?? "normal"],
+      })
+      .onConflictDoNothing({
+        target: [watchlistItem.userId, idCol],
+        where: sql`${idCol} IS NOT NULL`,
+      })
+      .returning();
+
+    if (inserted) {
+      await publishLibraryChange(trx, userId, [{ mediaType, mediaId }]);
+      return { created: true, item: formatItem(inserted) };
+    }
+
+    const [existing] = await trx
+      .select()
+      .from(watchlistItem)
+      .where(mediaPredicate(userId, mediaType, mediaId));
+
+    if (!existing) return undefined;
+
+    if (!priority || priorityValues[priority] === existing.priority) {
+      return { created: false, item: formatItem(existing) };
+    }
+
+    const [updated] = await trx
+      .update(watchlistItem)
+      .set({ priority: priorityValues[priority] })
+      .where(eq(watchlistItem.id, existing.id))
+      .returning();
+    await publishLibraryChange(trx, userId, [{ mediaType, mediaId }]);
+
+    return { created: false, item: formatItem(updated ?? existing) };
+  });
+}
+
+/**
+ * Updates the priority of a watchlist item owned by the user.
+ *
+ * @param userId - The watchlist owner
+ * @param watchlistItemId - Item ID
+ * @param priority - New priority
+ * @returns The updated item, or `undefined` if not found
+ */
+export async function updateWatchlistItem(
+  userId: string,
+  watchlistItemId: number,
+  priority: WatchlistPriority,
+) {
+  const [result] = await db
+    .update(watchlistItem)
+    .set({ priority: priorityValues[priority] })
+    .where(
+      and(
+        eq(watchlistItem.userId, userId),
+        eq(watchlistItem.id, watchlistItemId),
+      ),
+    )
+    .returning();
+
+  if (!result) return undefined;
+
+  await publishLibraryChange(db, userId, [toMediaRef(result)]);
+  return formatItem(result);
+}
+
+/**
+ * Removes an item from the user's watchlist.
+ *
+ * @param userId - The watchlist owner
+ * @param watchlistItemId - Item ID
+ * @returns The deleted row, or `undefined` if not found
+ */
+export async function removeFromWatchlist(
+  userId: string,
+  watchlistItemId: number,
+) {
+  const [result] = await db
+    .delete(watchlistItem)
+    .where(
+      and(
+        eq(watchlistItem.userId, userId),
+        eq(watchlistItem.id, watchlistItemId),
+      ),
+    )
+    .returning();
+
+  if (result) {
+    await publishLibraryChange(db, userId, [toMediaRef(result)]);
+  }
+
+  return result;
+}
+
+/**
+ * Removes a title from the user's watchlist, if present.
+ *
+ * @param trx - Active transaction (or the shared db instance)
+ * @param userId - The watchlist owner
+ * @param mediaType - "movie" | "tv"
+ * @param mediaId - TMDB media ID
+ * @returns Whether a row was removed
+ */
+export async function removeMediaFromWatchlist(
+  trx: typeof db | Transaction,
+  userId: string,
+  mediaType: MediaType,
+  mediaId: number,
+) {
+  const deleted = await trx
+    .delete(watchlistItem)
+    .where(mediaPredicate(userId, mediaType, mediaId))
+    .returning({ id: watchlistItem.id });
+
+  return deleted.length > 0;
+}
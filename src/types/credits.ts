@@ -0,0 +1,4 @@
+export type CreditSummary = {
+  id: number;
+  name: string;
+};
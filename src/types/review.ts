@@ -3,6 +3,7 @@ export type Review<T> = {
   mediaType: T;
   title: string;
   rating: string;
+  review: string | null;
   posterPath: string | null;
   createdAt: Date;
 };
@@ -0,0 +1,14 @@
+export type TvEpisodeSummary = {
+  seasonNumber: number;
+  episodeNumber: number;
+  name: string;
+  airDate: string | null;
+};
+
+export type TvSeasonSummary = {
+  seasonNumber: number;
+  episodeCount: number;
+  airDate: string | null;
+  // Missing for specials and seasons whose episodes could not be fetched
+  episodes?: TvEpisodeSummary[];
+};
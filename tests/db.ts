@@ -0,0 +1,79 @@
+import { PGlite } from "@electric-sql/pglite";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import { drizzle } from "drizzle-orm/pglite";
+
+import type { db } from "@/drizzle";
+import * as schema from "@/drizzle/schema";
+
+type QueryClient = Pick<PGlite, "query">;
+
+/**
+ * Internal: postgres.js returns rows from `execute` as an array, PGlite as
+ * `{ rows }`. Returns both shapes, so code that reads `execute` results
+ * behaves as it does against the real driver.
+ */
+function withRowArrays<T extends QueryClient>(client: T): T {
+  return new Proxy(client, {
+    get(target, prop) {
+      if (prop === "query") {
+        return async (...args: Parameters<PGlite["query"]>) => {
+          const result = await target.query(...args);
+          return Object.assign([...result.rows], result);
+        };
+      }
+      if (prop === "transaction" && target instanceof PGlite) {
+        return (callback: (tx: QueryClient) => Promise<unknown>) =>
+          target.transaction((tx) => callback(withRowArrays(tx)));
+      }
+
+      const value = Reflect.get(target, prop);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Creates an in-memory Postgres (PGlite) with the app schema, for tests
+ * that exercise real queries. Register it before importing services:
+ *
+ *     const testDb = await createTestDb();
+ *     mock.module("@/drizzle", () => ({ db: testDb }));
+ *
+ * PGlite has a single connection, so a query on the shared `db` made while
+ * a transaction is open waits forever instead of using another connection.
+ *
+ * @returns A drizzle instance typed like the app's `db`
+ */
+export async function createTestDb() {
+  const client = new PGlite();
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(schema),
+  );
+
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  return drizzle({
+    client: withRowArrays(client) as PGlite,
+  }) as unknown as typeof db;
+}
+
+/**
+ * Inserts a user with the given ID (also used as username and email).
+ */
+export async function createUser(testDb: typeof db, id: string) {
+  const now = new Date();
+  await testDb.insert(schema.user).values({
+    id,
+    username: id,
+    name: id,
+    email: `${id}@example.com`,
+    emailVerified: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return id;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+
+import { parseCsv, toCsv, toRecords } from "@/lib/csv";
+
+describe("parseCsv", () => {
+  test("splits rows and cells", () => {
+    expect(parseCsv("Name,Year\nHeat,1995\n")).toEqual([
+      ["Name", "Year"],
+      ["Heat", "1995"],
+    ]);
+  });
+
+  test("handles quoted commas, quotes and newlines", () => {
+    expect(
+      parseCsv(
+        'Name,Review\n"Crouching Tiger, Hidden Dragon","A ""wire""\nballet"',
+      ),
+    ).toEqual([
+      ["Name", "Review"],
+      ["Crouching Tiger, Hidden Dragon", 'A "wire"\nballet'],
+    ]);
+  });
+
+  test("handles CRLF line endings and a byte-order mark", () => {
+    expect(parseCsv("\uFEFFName,Year\r\nAlien,1979\r\n")).toEqual([
+      ["Name", "Year"],
+      ["Alien", "1979"],
+    ]);
+  });
+
+  test("keeps a last row without a trailing newline and empty cells", () => {
+    expect(parseCsv("a,,c")).toEqual([["a", "", "c"]]);
+  });
+});
+
+describe("toRecords", () => {
+  test("keys cells by header and skips blank rows", () => {
+    expect(toRecords(parseCsv("Name, Year\nHeat,1995\n,\nAlien"))).toEqual([
+      { Name: "Heat", Year: "1995" },
+      { Name: "Alien", Year: "" },
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  test("writes a header and quotes cells when needed", () => {
+    expect(
+      toCsv(
+        [{ title: 'Say "Cheese", Please', year: 2001, note: null }],
+        ["title", "year", "note"],
+      ),
+    ).toBe('title,year,note\r\n"Say ""Cheese"", Please",2001,\r\n');
+  });
+
+  test("writes the header for an empty dataset", () => {
+    expect(toCsv([], ["listId", "createdAt"])).toBe("listId,createdAt\r\n");
+  });
+
+  test("neutralizes cells a spreadsheet would run as formulas", () => {
+    expect(
+      toCsv(
+        [
+          { text: '=HYPERLINK("http://evil")' },
+          { text: "+1" },
+          { text: "-2" },
+          { text: "@SUM(A1)" },
+          { text: "fine = ok" },
+        ],
+        ["text"],
+      ).split("\r\n"),
+    ).toEqual([
+      "text",
+      '"\'=HYPERLINK(""http://evil"")"',
+      "'+1",
+      "'-2",
+      "'@SUM(A1)",
+      "fine = ok",
+      "",
+    ]);
+  });
+
+  test("leaves numbers as they are", () => {
+    expect(toCsv([{ value: -1.5 }], ["value"])).toBe("value\r\n-1.5\r\n");
+  });
+});
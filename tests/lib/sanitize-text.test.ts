@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  rawTextMaxLength,
+  sanitizeText,
+  validateTextLength,
+} from "@/lib/sanitize-text";
+
+describe("sanitizeText", () => {
+  test("normalizes whitespace and control characters", () => {
+    expect(sanitizeText("  Great\r\nfilm​ \n\n\n\nLoved it\t \x07")).toBe(
+      "Great\nfilm\n\nLoved it",
+    );
+  });
+
+  test("strips HTML tags and comments", () => {
+    expect(sanitizeText("<b>Bold</b> <!-- hidden --><br/>claim")).toBe(
+      "Bold claim",
+    );
+    expect(sanitizeText('<img src=x onerror="alert(1)">Poster')).toBe("Poster");
+  });
+
+  test("keeps comparisons that only look like tags", () => {
+    expect(sanitizeText("a<b and c>d")).toBe("a<b and c>d");
+    expect(sanitizeText("3 < 5 > 2")).toBe("3 < 5 > 2");
+  });
+
+  test("strips tags that removing a nested tag would assemble", () => {
+    expect(sanitizeText("<<b>img src=x onerror=alert(1)>")).toBe("");
+    expect(sanitizeText("<scr<b>ipt>alert(1)</script>")).toBe("alert(1)");
+    expect(sanitizeText("<!<!---->-- x -->ok")).not.toContain("<!--");
+  });
+
+  test("strips unknown tags that carry attributes", () => {
+    expect(sanitizeText("<my-el onclick=alert(1)>Hi</my-el>")).toBe(
+      "Hi</my-el>",
+    );
+    expect(sanitizeText("<svg/onload=alert(1)>")).toBe("");
+  });
+
+  test("neutralizes script links", () => {
+    expect(sanitizeText("[x](javascript:alert(1))")).toBe("[x](#)");
+    expect(sanitizeText("![x]( <vbscript:msgbox(1)> )")).toBe("![x]( # )");
+    expect(sanitizeText("[ok](https://example.com/a_(b))")).toBe(
+      "[ok](https://example.com/a_(b))",
+    );
+  });
+
+  test("neutralizes entity-encoded script links", () => {
+    expect(sanitizeText("[x](&#106;avascript:alert(1))")).toBe("[x](#)");
+    expect(sanitizeText("[x](&#x6A;avascript&colon;alert(1))")).toBe("[x](#)");
+    expect(sanitizeText("[x](<java&Tab;script:alert(1)>)")).toBe("[x](#)");
+  });
+
+  test("neutralizes reference-style script links", () => {
+    expect(sanitizeText("[x]\n\n[x]: javascript:alert(1)")).toBe(
+      "[x]\n\n[x]: #",
+    );
+    expect(sanitizeText('[x]: <&#106;avascript:alert(1)> "title"')).toBe(
+      '[x]: # "title"',
+    );
+    expect(sanitizeText("[x]: https://example.com")).toBe(
+      "[x]: https://example.com",
+    );
+  });
+
+  test("removes script autolinks", () => {
+    expect(sanitizeText("See <javascript:alert(1)>")).toBe("See");
+    expect(sanitizeText("See <https://example.com>")).toBe(
+      "See <https://example.com>",
+    );
+  });
+});
+
+describe("validateTextLength", () => {
+  test("counts code points so emoji count once", () => {
+    expect(validateTextLength("🎬".repeat(5), "Review", 5)).toBeNull();
+    expect(validateTextLength("🎬".repeat(6), "Review", 5)).toBe(
+      "Review must be 5 characters or fewer",
+    );
+  });
+
+  test("leaves room at the route for emoji at the service limit", () => {
+    const review = "🎬".repeat(5000);
+
+    expect(review.length).toBeLessThanOrEqual(rawTextMaxLength(5000));
+    expect(validateTextLength(sanitizeText(review), "Review", 5000)).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { beforeAll, describe, expect, mock, test } from "bun:test";
+import { eq } from "drizzle-orm";
+
+import { list, listCollaborator, listItem, movie } from "@/drizzle/schema";
+import { createTestDb, createUser } from "../../db";
+
+const testDb = await createTestDb();
+mock.module("@/drizzle", () => ({ db: testDb }));
+
+const { forkList } = await import("@/services/v1/actions");
+const { HttpError } = await import("@/lib/httpError");
+
+let privateListId: number;
+let coverItemId: number;
+
+beforeAll(async () => {
+  for (const id of ["owner", "viewer", "outsider"]) {
+    await createUser(testDb, id);
+  }
+  await testDb.insert(movie).values([
+    { id: 949, title: "Heat" },
+    { id: 680, title: "Pulp Fiction" },
+  ]);
+
+  const [source] = await testDb
+    .insert(list)
+    .values({
+      userId: "owner",
+      name: "Secret picks",
+      slug: "secret-picks",
+      description: "Not for everyone",
+      visibility: "private",
+    })
+    .returning();
+  privateListId = source!.id;
+
+  const items = await testDb
+    .insert(listItem)
+    .values([
+      {
+        userId: "owner",
+        listId: privateListId,
+        mediaType: "movie",
+        movieId: 949,
+        position: 2,
+        note: "The owner's take",
+        hasSpoilers: true,
+      },
+      {
+        userId: "owner",
+        listId: privateListId,
+        mediaType: "movie",
+        movieId: 680,
+        position: 1,
+      },
+    ])
+    .returning();
+  coverItemId = items[0]!.id;
+
+  await testDb
+    .update(list)
+    .set({ coverItemId })
+    .where(eq(list.id, privateListId));
+  await testDb.insert(listCollaborator).values({
+    listId: privateListId,
+    userId: "viewer",
+    role: "viewer",
+    status: "accepted",
+    invitedBy: "owner",
+  });
+});
+
+describe("forkList", () => {
+  test("keeps a private list private when a member forks it", async () => {
+    const fork = await forkList("viewer", privateListId);
+
+    expect(fork.userId).toBe("viewer");
+    expect(fork.visibility).toBe("private");
+    expect(fork.description).toBe("Not for everyone");
+    expect(fork.forkedFromId).toBe(privateListId);
+  });
+
+  test("copies items in order, without notes, and maps the cover", async () => {
+    const fork = await forkList("viewer", privateListId, "My picks");
+
+    const items = await testDb
+      .select()
+      .from(listItem)
+      .where(eq(listItem.listId, fork.id))
+      .orderBy(listItem.position);
+
+    expect(items.map((item) => item.movieId)).toEqual([680, 949]);
+    expect(items.every((item) => item.userId === "viewer")).toBe(true);
+    expect(items.every((item) => item.note === null)).toBe(true);
+    expect(items.every((item) => !item.hasSpoilers)).toBe(true);
+    expect(fork.coverItemId).toBe(
+      items.find((item) => item.movieId === 949)!.id,
+    );
+  });
+
+  test("hides private lists from outsiders", async () => {
+    const result = forkList("outsider", privateListId);
+
+    await expect(result).rejects.toBeInstanceOf(HttpError);
+    await expect(result).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeAll, describe, expect, mock, test } from "bun:test";
+
+import { follow, list, movie } from "@/drizzle/schema";
+import { createTestDb, createUser } from "../../db";
+
+const testDb = await createTestDb();
+mock.module("@/drizzle", () => ({ db: testDb }));
+
+const { getFeed, recordActivity } = await import("@/services/v1/activity");
+const { HttpError } = await import("@/lib/httpError");
+
+beforeAll(async () => {
+  for (const id of ["reader", "ana", "ben", "stranger"]) {
+    await createUser(testDb, id);
+  }
+  await testDb.insert(follow).values([
+    { followerId: "reader", followingId: "ana" },
+    { followerId: "reader", followingId: "ben" },
+  ]);
+  await testDb.insert(movie).values({ id: 949, title: "Heat" });
+
+  const [publicList, privateList] = await testDb
+    .insert(list)
+    .values([
+      { userId: "ana", name: "Open", slug: "open" },
+      { userId: "ana", name: "Hidden", slug: "hidden", visibility: "private" },
+    ])
+    .returning();
+
+  // Interleaved so pages have to merge both followed users
+  for (let i = 0; i < 5; i++) {
+    await recordActivity(testDb, [
+      { userId: "ana", type: "rating", movieId: 949, rating: "4.0" },
+      { userId: "ben", type: "rating", movieId: 949, rating: "3.0" },
+    ]);
+  }
+  await recordActivity(testDb, [
+    { userId: "ana", type: "list_created", listId: publicList!.id },
+    { userId: "ana", type: "list_created", listId: privateList!.id },
+    { userId: "stranger", type: "rating", movieId: 949, rating: "5.0" },
+  ]);
+});
+
+describe("getFeed", () => {
+  test("pages through followed users' activity, newest first", async () => {
+    const seen: number[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await getFeed("reader", { cursor, limit: 4 });
+      expect(page.items.length).toBeLessThanOrEqual(4);
+      seen.push(...page.items.map((item) => item.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toHaveLength(11);
+    expect(seen).toEqual([...seen].sort((a, b) => b - a));
+  });
+
+  test("shows only public list activity and no strangers", async () => {
+    const { items, nextCursor } = await getFeed("reader", { limit: 50 });
+
+    expect(nextCursor).toBeNull();
+    expect(items.map((item) => item.username)).not.toContain("stranger");
+    expect(items.filter((item) => item.type === "list_created")).toMatchObject([
+      { username: "ana", listName: "Open", mediaType: null },
+    ]);
+    expect(items.find((item) => item.type === "rating")).toMatchObject({
+      mediaType: "movie",
+      mediaId: 949,
+      title: "Heat",
+    });
+  });
+
+  test("is empty for readers who follow nobody", async () => {
+    expect(await getFeed("stranger", { limit: 10 })).toEqual({
+      items: [],
+      nextCursor: null,
+    });
+  });
+
+  test("rejects malformed cursors", async () => {
+    const result = getFeed("reader", { cursor: "abc", limit: 10 });
+
+    await expect(result).rejects.toBeInstanceOf(HttpError);
+    await expect(result).rejects.toMatchObject({ status: 400 });
+  });
+});
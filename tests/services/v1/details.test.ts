@@ -0,0 +1,169 @@
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { eq } from "drizzle-orm";
+
+import { tv } from "@/drizzle/schema";
+import type { TVDetails } from "@/schemas/v1/details-schema";
+import { createTestDb } from "../../db";
+
+const testDb = await createTestDb();
+mock.module("@/drizzle", () => ({ db: testDb }));
+
+const { syncSeasonEpisodes, updateTvMetadata } =
+  await import("@/services/v1/details");
+
+const SERIES_ID = 1396;
+
+const episode = (season: number, number: number) => ({
+  air_date: `2008-0${season}-0${number}`,
+  episode_number: number,
+  name: `Episode ${season}x${number}`,
+  season_number: season,
+});
+
+const details = (episodeCounts: number[]) =>
+  ({
+    in_production: false,
+    seasons: [
+      { season_number: 0, episode_count: 4, air_date: null },
+      ...episodeCounts.map((count, index) => ({
+        season_number: index + 1,
+        episode_count: count,
+        air_date: `2008-0${index + 1}-01`,
+      })),
+    ],
+    last_episode_to_air: episode(
+      episodeCounts.length,
+      episodeCounts[episodeCounts.length - 1]!,
+    ),
+    next_episode_to_air: null,
+  }) as unknown as Pick<
+    TVDetails,
+    "in_production" | "seasons" | "last_episode_to_air" | "next_episode_to_air"
+  >;
+
+/**
+ * Answers TMDB `append_to_response=season/N` requests with N episodes each.
+ */
+const tmdbSeasons = () =>
+  spyOn(globalThis, "fetch").mockImplementation((async (input: string) => {
+    const url = new URL(input);
+    const seasons = url.searchParams.get("append_to_response")!.split(",");
+
+    return Response.json(
+      Object.fromEntries(
+        seasons.map((key) => {
+          const season = Number(key.split("/")[1]);
+          return [
+            key,
+            {
+              episodes: Array.from({ length: season }, (_, index) =>
+                episode(season, index + 1),
+              ),
+            },
+          ];
+        }),
+      ),
+    );
+  }) as unknown as typeof fetch);
+
+const storedSeasons = async () => {
+  const [row] = await testDb
+    .select({ seasons: tv.seasons })
+    .from(tv)
+    .where(eq(tv.id, SERIES_ID));
+  return row!.seasons!;
+};
+
+beforeAll(async () => {
+  await testDb
+    .insert(tv)
+    .values({
+      id: SERIES_ID,
+      title: "Breaking Bad",
+      releaseDate: "2008-01-20",
+    });
+});
+
+afterEach(() => mock.restore());
+
+describe("season episodes", () => {
+  test("details refreshes store seasons without calling TMDB", async () => {
+    const fetched = tmdbSeasons();
+
+    await updateTvMetadata(SERIES_ID, details([1, 2]));
+
+    expect(fetched).not.toHaveBeenCalled();
+    expect((await storedSeasons()).map((season) => season.episodes)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  test("the job fills in missing episodes, skipping specials", async () => {
+    const fetched = tmdbSeasons();
+
+    expect(await syncSeasonEpisodes()).toBe(1);
+    expect(fetched).toHaveBeenCalledTimes(1);
+
+    const seasons = await storedSeasons();
+    expect(seasons[0]!.episodes).toBeUndefined();
+    expect(seasons[2]!.episodes?.map((e) => e.name)).toEqual([
+      "Episode 2x1",
+      "Episode 2x2",
+    ]);
+
+    expect(await syncSeasonEpisodes()).toBe(0);
+  });
+
+  test("only seasons that changed are dropped for refetching", async () => {
+    const fetched = tmdbSeasons();
+
+    await updateTvMetadata(SERIES_ID, details([1, 2, 3]));
+
+    const seasons = await storedSeasons();
+    expect(seasons.map((season) => season.episodes?.length)).toEqual([
+      undefined,
+      1,
+      2,
+      undefined,
+    ]);
+
+    expect(await syncSeasonEpisodes()).toBe(1);
+    expect(
+      new URL(fetched.mock.calls[0]![0] as string).searchParams.get(
+        "append_to_response",
+      ),
+    ).toBe("season/3");
+  });
+
+  test("failed requests leave seasons to retry", async () => {
+    spyOn(console, "error").mockImplementation(() => {});
+    spyOn(globalThis, "fetch").mockImplementation(
+      (async () =>
+        new Response(null, { status: 503 })) as unknown as typeof fetch,
+    );
+
+    await testDb
+      .update(tv)
+      .set({
+        seasons: (await storedSeasons()).map(
+          ({ episodes: _, ...season }) => season,
+        ),
+      })
+      .where(eq(tv.id, SERIES_ID));
+
+    expect(await syncSeasonEpisodes()).toBe(0);
+    expect((await storedSeasons()).some((season) => season.episodes)).toBe(
+      false,
+    );
+  });
+});
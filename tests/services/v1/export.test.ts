@@ -0,0 +1,116 @@
+import { beforeAll, describe, expect, mock, test } from "bun:test";
+import { gunzipSync } from "node:zlib";
+
+import { list, listItem, listLikes, movie } from "@/drizzle/schema";
+import { createTestDb, createUser } from "../../db";
+
+const testDb = await createTestDb();
+mock.module("@/drizzle", () => ({ db: testDb }));
+
+const { createAccountExport, getAccountData } =
+  await import("@/services/v1/export");
+
+/**
+ * Reads the files of an uncompressed ustar archive into a map of name to text.
+ */
+function readTar(tar: Uint8Array) {
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+  let offset = 0;
+
+  while (offset + 512 <= tar.length && tar[offset] !== 0) {
+    const header = tar.subarray(offset, offset + 512);
+    const field = (start: number, length: number) =>
+      decoder
+        .decode(header.subarray(start, start + length))
+        .replace(/\0.*$/s, "");
+    const prefix = field(345, 155);
+    const name = field(0, 100);
+    const size = parseInt(field(124, 12), 8);
+
+    files.set(
+      prefix ? `${prefix}/${name}` : name,
+      decoder.decode(tar.subarray(offset + 512, offset + 512 + size)),
+    );
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  return files;
+}
+
+beforeAll(async () => {
+  await createUser(testDb, "me");
+  await createUser(testDb, "other");
+  await testDb.insert(movie).values({ id: 949, title: "Heat" });
+
+  const [mine, theirs] = await testDb
+    .insert(list)
+    .values([
+      { userId: "me", name: "Mine", slug: "mine" },
+      {
+        userId: "other",
+        name: "Theirs",
+        slug: "theirs",
+        visibility: "private",
+      },
+    ])
+    .returning();
+
+  await testDb.insert(listItem).values([
+    { userId: "me", listId: mine!.id, mediaType: "movie", movieId: 949 },
+    { userId: "other", listId: theirs!.id, mediaType: "movie", movieId: 949 },
+  ]);
+  await testDb.insert(listLikes).values({ userId: "other", listId: mine!.id });
+});
+
+describe("getAccountData", () => {
+  test("exports only the user's own rows", async () => {
+    const data = await getAccountData("me");
+
+    expect(data.profile!.rows).toMatchObject([{ id: "me", username: "me" }]);
+    expect(data.lists!.rows.map((row) => row.slug)).toEqual(["mine"]);
+    expect(data.list_items!.rows).toMatchObject([
+      { listName: "Mine", mediaType: "movie", mediaId: 949, title: "Heat" },
+    ]);
+    // Likes others gave the user's list are not the user's own data
+    expect(data.list_likes!.rows).toEqual([]);
+  });
+
+  test("keeps columns for empty datasets", async () => {
+    const { diary } = await getAccountData("me");
+
+    expect(diary!.rows).toEqual([]);
+    expect(diary!.columns).toContain("watchedOn");
+  });
+
+  test("rejects unknown users", async () => {
+    await expect(getAccountData("ghost")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
+
+describe("createAccountExport", () => {
+  test("archives every dataset as JSON and CSV with a manifest", async () => {
+    const { fileName, archive } = await createAccountExport("other");
+    const root = fileName.replace(/\.tar\.gz$/, "");
+    const files = readTar(gunzipSync(archive));
+
+    expect(fileName).toMatch(/^framerate-export-\d{4}-\d{2}-\d{2}\.tar\.gz$/);
+
+    const manifest = JSON.parse(files.get(`${root}/manifest.json`)!);
+    expect(manifest).toMatchObject({
+      userId: "other",
+      datasets: { lists: 1, list_items: 1, list_likes: 1, diary: 0 },
+    });
+    for (const name of Object.keys(manifest.datasets)) {
+      expect(files.has(`${root}/json/${name}.json`)).toBe(true);
+      expect(files.has(`${root}/csv/${name}.csv`)).toBe(true);
+    }
+
+    expect(
+      JSON.parse(files.get(`${root}/json/list_likes.json`)!),
+    ).toMatchObject([{ listSlug: "mine", ownerUsername: "me" }]);
+    expect(files.get(`${root}/csv/diary.csv`)).toStartWith("id,mediaType,");
+  });
+});
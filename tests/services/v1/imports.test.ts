@@ -0,0 +1,240 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+
+import type { TitleMatch } from "@/services/v1/title-resolver";
+
+// Writes are recorded instead of hitting the database
+const calls = {
+  reviews: [] as Record<string, unknown>[],
+  diary: [] as unknown[][],
+  listItems: [] as Record<string, unknown>[],
+};
+
+mock.module("@/drizzle", () => ({
+  db: { select: () => ({ from: () => ({ where: async () => [] }) }) },
+}));
+mock.module("@/lib/slug", () => ({
+  generateSlug: async (name: string) => name.toLowerCase(),
+}));
+mock.module("@/services/v1/details", () => ({
+  addMediaToDB: async () => undefined,
+}));
+mock.module("@/services/v1/diary", () => ({
+  ensureDiaryEntry: async (...args: unknown[]) => {
+    calls.diary.push(args.slice(1));
+    return true;
+  },
+}));
+mock.module("@/services/v1/lists", () => ({
+  createList: async ({ name }: { name: string }) => ({ id: 7, name }),
+  addListItem: async (data: Record<string, unknown>) => {
+    calls.listItems.push(data);
+    return { created: true, item: data };
+  },
+}));
+mock.module("@/services/v1/reviews", () => ({
+  addReview: async (data: Record<string, unknown>) => {
+    calls.reviews.push(data);
+    return data;
+  },
+  updateReviewText: async () => undefined,
+}));
+
+const { importLetterboxd, parseLetterboxdList } =
+  await import("@/services/v1/imports");
+const { createFixtureResolver } = await import("@/services/v1/title-resolver");
+const { HttpError } = await import("@/lib/httpError");
+
+const title = (
+  mediaType: TitleMatch["mediaType"],
+  mediaId: number,
+  name: string,
+): TitleMatch => ({
+  mediaType,
+  mediaId,
+  title: name,
+  posterPath: null,
+  backdropPath: null,
+  releaseDate: null,
+});
+
+const resolver = createFixtureResolver({
+  "Heat (1995)": title("movie", 949, "Heat"),
+  "Cats (2019)": title("movie", 536869, "Cats"),
+  "The Office (2005)": title("tv", 2316, "The Office"),
+  Hamlet: [title("movie", 10549, "Hamlet"), title("movie", 10688, "Hamlet")],
+});
+
+const ratings = [
+  "Date,Name,Year,Letterboxd URI,Rating",
+  "2024-01-01,Heat,1995,https://boxd.it/a,4.5",
+  "2024-01-02,Hamlet,,https://boxd.it/b,3",
+  "2024-01-03,Unknown Film,2020,https://boxd.it/c,2",
+  "2024-01-04,Cats,2019,https://boxd.it/d,0.5",
+  "2024-01-05,,2019,https://boxd.it/e,1",
+].join("\n");
+
+const watched = [
+  "Date,Name,Year,Letterboxd URI",
+  "2024-01-06,Heat,1995,https://boxd.it/a",
+].join("\n");
+
+const favourites = [
+  "Letterboxd list export v7",
+  "Date,Name,Tags,URL,Description",
+  "2024-02-01,Favourites,,https://boxd.it/l,",
+  "",
+  "Position,Name,Year,URL,Description",
+  "1,Heat,1995,https://boxd.it/a,",
+  '2,The Office,2005,https://boxd.it/f,"Not a film, but still"',
+].join("\n");
+
+beforeEach(() => {
+  calls.reviews = [];
+  calls.diary = [];
+  calls.listItems = [];
+});
+
+describe("parseLetterboxdList", () => {
+  test("reads the list name and its items", () => {
+    const parsed = parseLetterboxdList(favourites);
+
+    expect(parsed?.name).toBe("Favourites");
+    expect(parsed?.items.map((item) => [item["Name"], item["Year"]])).toEqual([
+      ["Heat", "1995"],
+      ["The Office", "2005"],
+    ]);
+  });
+
+  test("rejects files that are not list exports", () => {
+    expect(parseLetterboxdList(watched)).toBeUndefined();
+    expect(parseLetterboxdList("")).toBeUndefined();
+  });
+});
+
+describe("importLetterboxd", () => {
+  test("reports matched, skipped and ambiguous rows", async () => {
+    const report = await importLetterboxd(
+      "user-1",
+      {
+        ratings,
+        watched,
+        lists: [
+          { fileName: "favourites.csv", content: favourites },
+          { fileName: "notes.csv", content: "just,some,text" },
+        ],
+      },
+      resolver,
+    );
+
+    expect(report.summary).toEqual({ matched: 4, skipped: 4, ambiguous: 1 });
+    expect(report.lists).toEqual([
+      {
+        file: "lists/favourites.csv",
+        listId: 7,
+        name: "Favourites",
+        created: true,
+      },
+    ]);
+    expect(
+      report.rows.map(({ file, row, status, reason }) => ({
+        file,
+        row,
+        status,
+        reason,
+      })),
+    ).toEqual([
+      { file: "ratings.csv", row: 1, status: "matched", reason: undefined },
+      { file: "ratings.csv", row: 2, status: "ambiguous", reason: undefined },
+      {
+        file: "ratings.csv",
+        row: 3,
+        status: "skipped",
+        reason: "No matching title found",
+      },
+      {
+        file: "ratings.csv",
+        row: 4,
+        status: "skipped",
+        reason: "½★ ratings are below the minimum rating of 1",
+      },
+      {
+        file: "ratings.csv",
+        row: 5,
+        status: "skipped",
+        reason: "Missing title",
+      },
+      { file: "watched.csv", row: 1, status: "matched", reason: undefined },
+      {
+        file: "lists/favourites.csv",
+        row: 1,
+        status: "matched",
+        reason: undefined,
+      },
+      {
+        file: "lists/favourites.csv",
+        row: 2,
+        status: "matched",
+        reason: undefined,
+      },
+      {
+        file: "lists/notes.csv",
+        row: 0,
+        status: "skipped",
+        reason: "Not a Letterboxd list export",
+      },
+    ]);
+
+    const ambiguous = report.rows.find((row) => row.status === "ambiguous");
+    expect(ambiguous?.candidates?.map((c) => c.mediaId)).toEqual([
+      10549, 10688,
+    ]);
+  });
+
+  test("writes through the shared review, diary and list logic", async () => {
+    await importLetterboxd(
+      "user-1",
+      {
+        ratings,
+        watched,
+        lists: [{ fileName: "favourites.csv", content: favourites }],
+      },
+      resolver,
+    );
+
+    expect(calls.reviews).toEqual([
+      { userId: "user-1", mediaType: "movie", mediaId: 949, rating: "4.5" },
+    ]);
+    expect(calls.diary).toEqual([["user-1", "movie", 949, "2024-01-06"]]);
+    expect(calls.listItems).toEqual([
+      {
+        userId: "user-1",
+        listId: 7,
+        mediaType: "movie",
+        movieId: 949,
+        seriesId: null,
+      },
+      {
+        userId: "user-1",
+        listId: 7,
+        mediaType: "tv",
+        movieId: null,
+        seriesId: 2316,
+      },
+    ]);
+  });
+
+  test("rejects exports with too many titles before any lookup", async () => {
+    const lookups = mock(resolver.resolve);
+
+    const result = importLetterboxd(
+      "user-1",
+      { ratings, watched },
+      { resolve: lookups },
+      3,
+    );
+
+    await expect(result).rejects.toBeInstanceOf(HttpError);
+    await expect(result).rejects.toMatchObject({ status: 413 });
+    expect(lookups).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, mock, test } from "bun:test";
+import { eq } from "drizzle-orm";
+
+import { list, listItem, movie } from "@/drizzle/schema";
+import { createTestDb, createUser } from "../../db";
+
+const testDb = await createTestDb();
+mock.module("@/drizzle", () => ({ db: testDb }));
+
+const { transferListItems } = await import("@/services/v1/list-bulk");
+
+const createList = async (slug: string) => {
+  const [created] = await testDb
+    .insert(list)
+    .values({ userId: "curator", name: slug, slug })
+    .returning();
+  return created!.id;
+};
+
+const itemsOn = (listId: number) =>
+  testDb.select().from(listItem).where(eq(listItem.listId, listId));
+
+let sourceId: number;
+let noted: { id: number };
+let plain: { id: number };
+
+beforeAll(async () => {
+  await createUser(testDb, "curator");
+  await createUser(testDb, "editor");
+  await testDb.insert(movie).values([
+    { id: 949, title: "Heat" },
+    { id: 680, title: "Pulp Fiction" },
+  ]);
+
+  sourceId = await createList("source");
+  [noted, plain] = await testDb
+    .insert(listItem)
+    .values([
+      {
+        userId: "curator",
+        listId: sourceId,
+        mediaType: "movie",
+        movieId: 949,
+        note: "The curator's take",
+        hasSpoilers: true,
+      },
+      {
+        userId: "curator",
+        listId: sourceId,
+        mediaType: "movie",
+        movieId: 680,
+      },
+    ])
+    .returning();
+});
+
+describe("transferListItems", () => {
+  test("copies items as the copier's, without notes, like forks", async () => {
+    const targetId = await createList("copy-target");
+
+    const results = await transferListItems(
+      "editor",
+      sourceId,
+      targetId,
+      [plain!.id, noted!.id],
+      "copy",
+    );
+
+    const copies = await itemsOn(targetId);
+    const byMovie = new Map(copies.map((copy) => [copy.movieId, copy]));
+
+    expect(results).toEqual([
+      {
+        listItemId: plain!.id,
+        status: "created",
+        targetListItemId: byMovie.get(680)!.id,
+      },
+      {
+        listItemId: noted!.id,
+        status: "created",
+        targetListItemId: byMovie.get(949)!.id,
+      },
+    ]);
+    expect(copies.every((copy) => copy.userId === "editor")).toBe(true);
+    expect(copies.every((copy) => copy.note === null)).toBe(true);
+    expect(copies.every((copy) => !copy.hasSpoilers)).toBe(true);
+    expect(await itemsOn(sourceId)).toHaveLength(2);
+  });
+
+  test("moves items with their notes and who added them", async () => {
+    const targetId = await createList("move-target");
+
+    await transferListItems("editor", sourceId, targetId, [noted!.id], "move");
+
+    const [moved] = await itemsOn(targetId);
+    expect(moved).toMatchObject({
+      id: noted!.id,
+      userId: "curator",
+      note: "The curator's take",
+      hasSpoilers: true,
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { beforeAll, describe, expect, mock, test } from "bun:test";
+import { eq } from "drizzle-orm";
+
+import { list, movie } from "@/drizzle/schema";
+import { createTestDb, createUser } from "../../db";
+
+const testDb = await createTestDb();
+mock.module("@/drizzle", () => ({ db: testDb }));
+
+const { authorizeRole, getRole } = await import("@/lib/authorization");
+const { inviteCollaborator, respondToInvite } =
+  await import("@/services/v1/list-collaborators");
+const { addListItem } = await import("@/services/v1/lists");
+
+let listId: number;
+
+const createList = async (slug: string) => {
+  const [created] = await testDb
+    .insert(list)
+    .values({ userId: "owner", name: slug, slug, visibility: "private" })
+    .returning();
+  return created!.id;
+};
+
+const addHeat = (userId: string, targetListId = listId) =>
+  addListItem({
+    userId,
+    listId: targetListId,
+    mediaType: "movie",
+    movieId: 949,
+  });
+
+beforeAll(async () => {
+  for (const id of ["owner", "editor", "viewer", "outsider"]) {
+    await createUser(testDb, id);
+  }
+  await testDb.insert(movie).values({ id: 949, title: "Heat" });
+  listId = await createList("shared");
+});
+
+describe("list roles", () => {
+  test("pending invites grant no access", async () => {
+    await inviteCollaborator(listId, "owner", "viewer", "viewer");
+
+    expect(await getRole("list", listId, "viewer")).toEqual({
+      ownerId: "owner",
+      role: null,
+    });
+    await expect(
+      authorizeRole("list", listId, "viewer", "viewer"),
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  test("accepted invites grant their role", async () => {
+    await respondToInvite("viewer", listId, true);
+    await inviteCollaborator(listId, "owner", "editor", "editor");
+    await respondToInvite("editor", listId, true);
+
+    expect(await getRole("list", listId, "owner")).toMatchObject({
+      role: "owner",
+    });
+    expect(await authorizeRole("list", listId, "editor", "editor")).toEqual({
+      ownerId: "owner",
+      role: "editor",
+    });
+    await expect(
+      authorizeRole("list", listId, "viewer", "editor"),
+    ).rejects.toMatchObject({ status: 403 });
+    await expect(
+      authorizeRole("list", listId, "outsider", "viewer"),
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  test("only owners and editors add items; outsiders see no list", async () => {
+    await expect(addHeat("viewer")).rejects.toMatchObject({ status: 403 });
+    await expect(addHeat("outsider")).rejects.toMatchObject({ status: 404 });
+    await expect(addHeat("editor", 999_999)).rejects.toMatchObject({
+      status: 404,
+    });
+
+    const added = await addHeat("editor");
+    expect(added).toMatchObject({ created: true, item: { userId: "editor" } });
+    expect(await addHeat("owner")).toMatchObject({ created: false });
+  });
+
+  test("trashed lists grant no roles and take no invite answers", async () => {
+    const trashedId = await createList("trashed");
+    await inviteCollaborator(trashedId, "owner", "editor", "editor");
+    await inviteCollaborator(trashedId, "owner", "viewer", "viewer");
+    await testDb
+      .update(list)
+      .set({ deletedAt: new Date() })
+      .where(eq(list.id, trashedId));
+
+    expect(await respondToInvite("editor", trashedId, true)).toBeUndefined();
+    expect(await respondToInvite("viewer", trashedId, false)).toBeUndefined();
+    expect(await getRole("list", trashedId, "owner")).toBeUndefined();
+    await expect(addHeat("owner", trashedId)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { beforeAll, describe, expect, mock, test } from "bun:test";
+import type { User } from "better-auth";
+import { eq } from "drizzle-orm";
+
+import {
+  activity,
+  list,
+  listCollaborator,
+  listItem,
+  listLikes,
+  movie,
+} from "@/drizzle/schema";
+import { createTestDb, createUser } from "../../db";
+
+const testDb = await createTestDb();
+mock.module("@/drizzle", () => ({ db: testDb }));
+
+const {
+  createList,
+  deleteList,
+  getListData,
+  getListsByUsername,
+  getTrash,
+  LIST_TRASH_RETENTION_DAYS,
+  purgeTrashedLists,
+  restoreList,
+  updateList,
+} = await import("@/services/v1/lists");
+
+const session = (id: string) => ({ id }) as User;
+
+beforeAll(async () => {
+  for (const id of ["owner", "viewer", "outsider"]) {
+    await createUser(testDb, id);
+  }
+
+  const created = await testDb
+    .insert(list)
+    .values([
+      { userId: "owner", name: "Open", slug: "open" },
+      { userId: "owner", name: "Link", slug: "link", visibility: "unlisted" },
+      { userId: "owner", name: "Mine", slug: "mine", visibility: "private" },
+    ])
+    .returning();
+
+  await testDb.insert(listCollaborator).values({
+    listId: created[2]!.id,
+    userId: "viewer",
+    role: "viewer",
+    status: "accepted",
+    invitedBy: "owner",
+  });
+});
+
+describe("list visibility", () => {
+  test("profiles show public lists to others and every list to the owner", async () => {
+    const slugs = async (viewerId?: string) =>
+      (await getListsByUsername("owner", viewerId)).map((item) => item.slug);
+
+    expect(await slugs()).toEqual(["open"]);
+    expect(await slugs("outsider")).toEqual(["open"]);
+    expect(await slugs("owner")).toEqual(["open", "link", "mine"]);
+  });
+
+  test("unlisted lists open by link for anyone", async () => {
+    const data = await getListData("owner", "link", undefined);
+
+    expect(data.list.visibility).toBe("unlisted");
+    expect(data.viewerRole).toBeNull();
+  });
+
+  test("private lists open only for members", async () => {
+    await expect(getListData("owner", "mine", undefined)).rejects.toMatchObject(
+      { status: 404 },
+    );
+    await expect(
+      getListData("owner", "mine", session("outsider")),
+    ).rejects.toMatchObject({ status: 404 });
+
+    const data = await getListData("owner", "mine", session("viewer"));
+    expect(data.viewerRole).toBe("viewer");
+  });
+});
+
+describe("list descriptions", () => {
+  test("are sanitized on create and update", async () => {
+    const created = await createList({
+      userId: "owner",
+      name: "Notes",
+      slug: "notes",
+      description:
+        "<img src=x onerror=alert(1)>Great [picks](javascript:alert(1))",
+    });
+    expect(created.description).toBe("Great [picks](#)");
+
+    const updated = await updateList("owner", created.id, {
+      description: "  ",
+    });
+    expect(updated.description).toBeNull();
+  });
+
+  test("are limited in length", async () => {
+    await expect(
+      createList({
+        userId: "owner",
+        name: "Long",
+        slug: "long",
+        description: "a".repeat(10_000),
+      }),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe("list trash", () => {
+  const trashList = async (slug: string) => {
+    const [created] = await testDb
+      .insert(list)
+      .values({ userId: "owner", name: slug, slug })
+      .returning();
+    return created!.id;
+  };
+
+  test("trashed lists are hidden until restored", async () => {
+    const listId = await trashList("trash-me");
+
+    await expect(deleteList("outsider", listId)).rejects.toMatchObject({
+      status: 404,
+    });
+
+    const trashed = await deleteList("owner", listId);
+    expect(trashed.purgeAt!.getTime() - trashed.deletedAt!.getTime()).toBe(
+      LIST_TRASH_RETENTION_DAYS * 86_400_000,
+    );
+    await expect(
+      getListData("owner", "trash-me", session("owner")),
+    ).rejects.toMatchObject({ status: 404 });
+    expect(
+      (await getListsByUsername("owner", "owner")).map((item) => item.slug),
+    ).not.toContain("trash-me");
+    expect((await getTrash("owner")).map((item) => item.id)).toContain(listId);
+    expect(await getTrash("outsider")).toEqual([]);
+
+    await expect(restoreList("outsider", listId)).rejects.toMatchObject({
+      status: 404,
+    });
+    const restored = await restoreList("owner", listId);
+    expect(restored.deletedAt).toBeNull();
+    expect(
+      (await getListData("owner", "trash-me", session("owner"))).list.id,
+    ).toBe(listId);
+    await expect(restoreList("owner", listId)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  test("purges lists past the retention period with their rows", async () => {
+    const dueId = await trashList("due");
+    const recentId = await trashList("recent");
+    await testDb.insert(movie).values({ id: 949, title: "Heat" });
+    await testDb.insert(listItem).values({
+      userId: "owner",
+      listId: dueId,
+      mediaType: "movie",
+      movieId: 949,
+    });
+    await testDb.insert(listLikes).values({ userId: "viewer", listId: dueId });
+    await testDb
+      .insert(activity)
+      .values({ userId: "owner", type: "list_created", listId: dueId });
+
+    await deleteList("owner", dueId);
+    await deleteList("owner", recentId);
+    const later = new Date(
+      Date.now() + (LIST_TRASH_RETENTION_DAYS + 1) * 86_400_000,
+    );
+
+    expect(await purgeTrashedLists(new Date())).toBe(0);
+
+    // "recent" was trashed a day before `later`, still inside the window
+    await testDb
+      .update(list)
+      .set({ deletedAt: new Date(later.getTime() - 86_400_000) })
+      .where(eq(list.id, recentId));
+    expect(await purgeTrashedLists(later)).toBe(1);
+
+    expect(await testDb.select().from(list).where(eq(list.id, dueId))).toEqual(
+      [],
+    );
+    expect(
+      await testDb.select().from(listItem).where(eq(listItem.listId, dueId)),
+    ).toEqual([]);
+    expect(
+      await testDb.select().from(listLikes).where(eq(listLikes.listId, dueId)),
+    ).toEqual([]);
+    expect(
+      await testDb.select().from(activity).where(eq(activity.listId, dueId)),
+    ).toEqual([]);
+    expect((await getTrash("owner")).map((item) => item.id)).toEqual([
+      recentId,
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import { beforeAll, describe, expect, mock, test } from "bun:test";
+
+import { list, notification } from "@/drizzle/schema";
+import { createTestDb, createUser } from "../../db";
+
+const testDb = await createTestDb();
+mock.module("@/drizzle", () => ({ db: testDb }));
+
+const {
+  getNotifications,
+  markAllRead,
+  markGroupRead,
+  notify,
+  updateNotificationPreferences,
+} = await import("@/services/v1/notifications");
+
+let listId: number;
+
+beforeAll(async () => {
+  for (const id of ["me", "ana", "ben", "cy", "dee"]) {
+    await createUser(testDb, id);
+  }
+
+  const [created] = await testDb
+    .insert(list)
+    .values({ userId: "me", name: "Mine", slug: "mine" })
+    .returning();
+  listId = created!.id;
+
+  for (const actorId of ["ana", "ben", "cy", "dee", "ana"]) {
+    await notify(testDb, { userId: "me", actorId, type: "list_liked", listId });
+  }
+  await notify(testDb, { userId: "me", actorId: "ben", type: "followed" });
+});
+
+describe("notify", () => {
+  test("skips your own actions and muted types", async () => {
+    await updateNotificationPreferences("me", { list_saved: false });
+
+    await notify(testDb, {
+      userId: "me",
+      actorId: "me",
+      type: "list_liked",
+      listId,
+    });
+    await notify(testDb, {
+      userId: "me",
+      actorId: "ana",
+      type: "list_saved",
+      listId,
+    });
+
+    const rows = await testDb.select().from(notification);
+    expect(rows).toHaveLength(6);
+    expect(rows.every((row) => row.actorId !== "me")).toBe(true);
+    expect(rows.every((row) => row.type !== "list_saved")).toBe(true);
+  });
+});
+
+describe("getNotifications", () => {
+  test("groups by type and list with the latest actors", async () => {
+    const { groups, unreadCount, nextCursor } = await getNotifications("me", {
+      limit: 10,
+    });
+
+    expect(unreadCount).toBe(6);
+    expect(nextCursor).toBeNull();
+    expect(groups.map((group) => group.type)).toEqual([
+      "followed",
+      "list_liked",
+    ]);
+
+    const [followed, liked] = groups;
+    expect(followed).toMatchObject({ count: 1, actorCount: 1, list: null });
+    expect(liked).toMatchObject({
+      unread: true,
+      count: 5,
+      actorCount: 4,
+      list: { id: listId, slug: "mine", username: "me" },
+    });
+    expect(liked!.actors.map((actor) => actor.username)).toEqual([
+      "ana",
+      "dee",
+      "cy",
+    ]);
+  });
+
+  test("pages by group", async () => {
+    const first = await getNotifications("me", { limit: 1 });
+    expect(first.groups.map((group) => group.type)).toEqual(["followed"]);
+
+    const second = await getNotifications("me", {
+      cursor: first.nextCursor!,
+      limit: 1,
+    });
+    expect(second.groups.map((group) => group.type)).toEqual(["list_liked"]);
+    expect(second.nextCursor).toBeNull();
+
+    expect(await getNotifications("ana", { limit: 10 })).toEqual({
+      groups: [],
+      unreadCount: 0,
+      nextCursor: null,
+    });
+  });
+
+  test("rejects malformed cursors", async () => {
+    await expect(
+      getNotifications("me", { cursor: "abc", limit: 10 }),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe("marking as read", () => {
+  test("new activity on a read group shows up as a new unread group", async () => {
+    expect(await markGroupRead("me", { type: "list_liked", listId })).toEqual({
+      updated: 5,
+    });
+    await notify(testDb, {
+      userId: "me",
+      actorId: "ben",
+      type: "list_liked",
+      listId,
+    });
+
+    const { groups, unreadCount } = await getNotifications("me", {
+      limit: 10,
+    });
+    expect(unreadCount).toBe(2);
+    expect(
+      groups.map(({ type, unread, count }) => ({ type, unread, count })),
+    ).toEqual([
+      { type: "list_liked", unread: true, count: 1 },
+      { type: "followed", unread: true, count: 1 },
+      { type: "list_liked", unread: false, count: 5 },
+    ]);
+
+    expect(await markAllRead("me")).toEqual({ updated: 2 });
+    expect((await getNotifications("me", { limit: 10 })).unreadCount).toBe(0);
+  });
+});
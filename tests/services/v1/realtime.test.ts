@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+
+import type { db } from "@/drizzle";
+import type { RealtimeEvent } from "@/lib/realtime";
+import type { MediaRef } from "@/services/v1/lists";
+import { publishLibraryChange } from "@/services/v1/realtime";
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const NOTIFY_PAYLOAD_LIMIT = 8000;
+
+const dialect = new PgDialect();
+
+/**
+ * A transaction stand-in that records the payload of every pg_notify call.
+ */
+function recordingTrx() {
+  const payloads: string[] = [];
+  const trx = {
+    execute: async (query: SQL) => {
+      const { params } = dialect.sqlToQuery(query);
+      payloads.push(params[1] as string);
+      return [];
+    },
+  } as unknown as typeof db;
+
+  return { trx, payloads };
+}
+
+describe("publishLibraryChange", () => {
+  test("splits a 500-item change into payloads under the NOTIFY limit", async () => {
+    const media: MediaRef[] = Array.from({ length: 500 }, (_, index) => ({
+      mediaType: index % 2 === 0 ? "movie" : "tv",
+      mediaId: 1_000_000_000 + index,
+    }));
+    const { trx, payloads } = recordingTrx();
+
+    await publishLibraryChange(trx, crypto.randomUUID(), media);
+
+    expect(payloads.length).toBeGreaterThan(1);
+    for (const payload of payloads) {
+      expect(Buffer.byteLength(payload)).toBeLessThan(NOTIFY_PAYLOAD_LIMIT);
+    }
+
+    const events = payloads.map(
+      (payload) => JSON.parse(payload) as RealtimeEvent,
+    );
+    expect(events.every((event) => event.event === "library")).toBe(true);
+    expect(events.flatMap((event) => event.data.media as MediaRef[])).toEqual(
+      media,
+    );
+  });
+
+  test("publishes nothing when no titles changed", async () => {
+    const { trx, payloads } = recordingTrx();
+
+    await publishLibraryChange(trx, "user-1", []);
+
+    expect(payloads).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeAll, describe, expect, mock, spyOn, test } from "bun:test";
+import { eq, inArray } from "drizzle-orm";
+
+import { movie, movieReview } from "@/drizzle/schema";
+import { createTestDb, createUser } from "../../db";
+
+const testDb = await createTestDb();
+mock.module("@/drizzle", () => ({ db: testDb }));
+
+// Titles in `removed` fail like titles TMDB no longer has
+const removed = new Set([1, 2]);
+const fetched: number[] = [];
+mock.module("@/services/v1/details", () => ({
+  fetchDetails: async (_mediaType: string, id: number) => {
+    fetched.push(id);
+    if (removed.has(id)) throw new Error("TMDB API Error: 404 Not Found");
+    await testDb
+      .update(movie)
+      .set({ genres: ["Drama"] })
+      .where(eq(movie.id, id));
+  },
+}));
+
+const { backfillStatsMetadata } = await import("@/services/v1/stats");
+
+beforeAll(async () => {
+  await createUser(testDb, "viewer");
+  const ids = [1, 2, 3, 4];
+  await testDb
+    .insert(movie)
+    .values(ids.map((id) => ({ id, title: `Film ${id}` })));
+  await testDb.insert(movieReview).values(
+    ids.map((movieId) => ({
+      userId: "viewer",
+      movieId,
+      mediaType: "movie",
+      rating: "3.0",
+    })),
+  );
+});
+
+describe("backfillStatsMetadata", () => {
+  test("stamps failures and moves on instead of retrying them", async () => {
+    const logged = spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await backfillStatsMetadata(2)).toBe(0);
+      expect(fetched).toEqual([1, 2]);
+
+      const failed = await testDb
+        .select({ id: movie.id, failedAt: movie.metadataFailedAt })
+        .from(movie)
+        .where(inArray(movie.id, [1, 2]));
+      expect(failed.every((row) => row.failedAt instanceof Date)).toBe(true);
+
+      fetched.length = 0;
+      expect(await backfillStatsMetadata(2)).toBe(2);
+      expect(fetched).toEqual([3, 4]);
+
+      fetched.length = 0;
+      expect(await backfillStatsMetadata(2)).toBe(0);
+      expect(fetched).toEqual([]);
+    } finally {
+      logged.mockRestore();
+    }
+  });
+
+  test("retries failed titles once the back-off has passed", async () => {
+    removed.delete(1);
+    await testDb
+      .update(movie)
+      .set({ metadataFailedAt: new Date(Date.now() - 2 * 86_400_000) })
+      .where(eq(movie.id, 1));
+
+    fetched.length = 0;
+    expect(await backfillStatsMetadata(10)).toBe(1);
+    expect(fetched).toEqual([1]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+
+import type { MovieSearchResult } from "@/schemas/v1/search-schema";
+import { pickMatch } from "@/services/v1/title-resolver";
+
+const result = (
+  id: number,
+  title: string,
+  releaseDate: string | null,
+  originalTitle = title,
+): MovieSearchResult => ({
+  id,
+  title,
+  original_title: originalTitle,
+  release_date: releaseDate,
+  poster_path: null,
+  backdrop_path: null,
+  popularity: 1,
+});
+
+describe("pickMatch", () => {
+  test("matches a single exact title for the year", () => {
+    const outcome = pickMatch({ name: "Heat", year: 1995 }, [
+      result(949, "Heat", "1995-12-15"),
+      result(1, "Heat", "1986-03-14"),
+      result(2, "Heat Wave", "1995-06-01"),
+    ]);
+
+    expect(outcome).toEqual({
+      status: "matched",
+      match: {
+        mediaType: "movie",
+        mediaId: 949,
+        title: "Heat",
+        posterPath: null,
+        backdropPath: null,
+        releaseDate: "1995-12-15",
+      },
+    });
+  });
+
+  test("ignores case, accents and punctuation, and matches original titles", () => {
+    expect(
+      pickMatch({ name: "amelie", year: 2001 }, [
+        result(194, "Amélie", "2001-04-25"),
+      ]),
+    ).toMatchObject({ status: "matched", match: { mediaId: 194 } });
+
+    expect(
+      pickMatch({ name: "Le fabuleux destin d'Amélie Poulain", year: 2001 }, [
+        result(
+          194,
+          "Amélie",
+          "2001-04-25",
+          "Le Fabuleux Destin d'Amélie Poulain",
+        ),
+        result(5, "Amélie Again", "2001-01-01"),
+      ]),
+    ).toMatchObject({ status: "matched", match: { mediaId: 194 } });
+  });
+
+  test("reports several exact matches as ambiguous", () => {
+    const outcome = pickMatch({ name: "Hamlet", year: null }, [
+      result(10549, "Hamlet", "1996-12-25"),
+      result(10688, "Hamlet", "1990-12-19"),
+    ]);
+
+    expect(outcome.status).toBe("ambiguous");
+    if (outcome.status === "ambiguous") {
+      expect(outcome.candidates.map((c) => c.mediaId)).toEqual([10549, 10688]);
+    }
+  });
+
+  test("falls back to a lone result for the year", () => {
+    expect(
+      pickMatch({ name: "Se7en", year: 1995 }, [
+        result(807, "Seven", "1995-09-22"),
+      ]),
+    ).toMatchObject({ status: "matched", match: { mediaId: 807 } });
+  });
+
+  test("is ambiguous with several inexact results for the year", () => {
+    expect(
+      pickMatch({ name: "Dune Part", year: 2021 }, [
+        result(438631, "Dune", "2021-09-15"),
+        result(3, "Dune Drifter", "2021-02-01"),
+      ]),
+    ).toMatchObject({ status: "ambiguous" });
+  });
+
+  test("finds nothing when no result has the year", () => {
+    expect(
+      pickMatch({ name: "Heat", year: 2030 }, [
+        result(949, "Heat", "1995-12-15"),
+      ]),
+    ).toEqual({ status: "not_found" });
+  });
+});